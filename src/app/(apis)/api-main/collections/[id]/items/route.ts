@@ -0,0 +1,122 @@
+import { eq, or, sql } from 'drizzle-orm';
+
+import { getTraitConditions, getTraitFacets } from '@/collections/index.ts';
+import { db } from '@/db/index.ts';
+import {
+  ethscriptionOrder,
+  findList,
+  type ListFields,
+  type ListOrder,
+  type ListSorts,
+} from '@/db/queries/index.ts';
+import { collectionItems, collections, ethscriptions } from '@/db/schema/index.ts';
+import { collectionItemsParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+const fields: ListFields = {
+  name: { type: 'text', column: collectionItems.name },
+  owner: { type: 'text', column: ethscriptions.current_owner, lowercase: true },
+};
+
+// by creation, or by rarity with the unranked ones last, in the `?order=` direction
+const orders: Record<'created' | 'rarity_rank' | 'rarity_score', ListOrder> = {
+  created: ethscriptionOrder,
+  rarity_rank: [{ key: 'rarity_rank', column: collectionItems.rarity_rank }, ...ethscriptionOrder],
+  rarity_score: [
+    { key: 'rarity_score', column: collectionItems.rarity_score },
+    ...ethscriptionOrder,
+  ],
+};
+
+const sorts: ListSorts = {
+  rarity_rank: collectionItems.rarity_rank,
+  number: ethscriptions.number,
+  block_number: ethscriptions.block_number,
+};
+
+// GET /collections/:id/items - List the items of a collection (by ID or slug), oldest first, with their name,
+// description and attributes, filtered by traits (`?trait[background]=purple&trait[hat]=cowboy hat`), `&name=*cat*`
+// and `&owner=0xa20c...`. Sorted by rarity, the rarest first, with `&sort_by=rarity_rank` or `&sort_by=rarity_score`,
+// unranked items last, or with `&sort=number`. Every response comes with the trait counts (`facets`) of all
+// the matching items. Attributes named `rarity`, `rank`, `rarity_rank` or `rarity_score` are precomputed scores
+// of some collections (like the Ordex ones), not traits, so they don't count for the rarity
+export const GET = withValidation(
+  collectionItemsParamsSchema,
+  async (req, { params, searchQuery }) => {
+    const segments = await params;
+    const [collection] = await db
+      .select({ id: collections.id })
+      .from(collections)
+      .where(
+        or(eq(collections.id, segments.id as string), eq(collections.slug, segments.id as string)),
+      );
+
+    if (!collection) {
+      return {
+        status: 404,
+        message: 'Collection not found',
+        error: {
+          issues: [
+            {
+              code: 'not_found',
+              message: 'This collection does not exist',
+              keys: [segments.id],
+              path: [],
+            },
+          ],
+        },
+      };
+    }
+
+    const list = await findList(db, {
+      table: ethscriptions,
+      join: (query) =>
+        query.leftJoin(collectionItems, eq(collectionItems.ethscription_id, ethscriptions.id)),
+      query: db
+        .select({
+          id: ethscriptions.id,
+          number: ethscriptions.number,
+          name: collectionItems.name,
+          description: collectionItems.description,
+          rarity_score: collectionItems.rarity_score,
+          statistical_rarity: collectionItems.statistical_rarity,
+          rarity_rank: collectionItems.rarity_rank,
+          attributes: sql`COALESCE(${collectionItems.attributes}, json('[]'))`.mapWith(
+            collectionItems.attributes,
+          ),
+          content_type: ethscriptions.content_type,
+          content_sha: ethscriptions.content_sha,
+          creator: ethscriptions.creator,
+          current_owner: ethscriptions.current_owner,
+          block_number: ethscriptions.block_number,
+          block_timestamp: ethscriptions.block_timestamp,
+          transaction_index: ethscriptions.transaction_index,
+        })
+        .from(ethscriptions)
+        .leftJoin(collectionItems, eq(collectionItems.ethscription_id, ethscriptions.id))
+        .$dynamic(),
+      fields,
+      order: orders[searchQuery.sort_by],
+      sorts,
+      // the oldest or the rarest first, higher scores are rarer, unless `?order=` says otherwise
+      searchQuery: {
+        ...searchQuery,
+        order: searchQuery.order || (searchQuery.sort_by === 'rarity_score' ? 'desc' : 'asc'),
+      },
+      searchParams: new URL(req.url).searchParams,
+      conditions: [
+        eq(ethscriptions.collection_id, collection.id),
+        ...getTraitConditions(searchQuery.trait),
+      ],
+    });
+
+    const facets = await getTraitFacets(db, list.where);
+
+    return {
+      pagination: list.pagination,
+      data: withIncludesExcludes(list.data, searchQuery),
+      facets,
+      status: 200,
+    };
+  },
+);
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as orm from 'drizzle-orm';
+import { z } from 'zod';
+
+import { importCollectionManifest } from '@/collections/index.ts';
+import { db } from '@/db/index.ts';
+import { collectionManifestSchema, collections } from '@/db/schema/index.ts';
+
+// POST /collections/:id/manifest - Import a collection manifest (by collection ID or slug), the items by
+// `ethscription_id` or content `sha`, with their `name` and `attributes`. Valid items are linked to the collection,
+// and the ones that can't be are listed in `failures` with the reason, the request fails only on an invalid body
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const segments = await params;
+    const items = collectionManifestSchema.parse(await req.json());
+
+    const [collection] = await db
+      .select({ id: collections.id, team: collections.team, verified: collections.verified })
+      .from(collections)
+      .where(orm.or(orm.eq(collections.id, segments.id), orm.eq(collections.slug, segments.id)));
+
+    if (!collection) {
+      return NextResponse.json(
+        {
+          status: 404,
+          message: 'Collection not found',
+          error: {
+            issues: [
+              {
+                code: 'not_found',
+                message: 'This collection does not exist',
+                keys: [segments.id],
+                path: [],
+              },
+            ],
+          },
+        },
+        { status: 404 },
+      );
+    }
+
+    const result = await importCollectionManifest(db, collection, items);
+
+    return NextResponse.json({ data: result }, { status: 200 });
+  } catch (err_: any) {
+    if (err_ instanceof z.ZodError || err_ instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          message: 'Request body validation failed',
+          status: 400,
+          error: err_ instanceof z.ZodError ? err_ : { name: err_.name, message: err_.message },
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message: 'Fatal server failure',
+        status: 500,
+        error: { name: err_.name, code: err_.code, message: err_.toString() },
+      },
+      { status: 500 },
+    );
+  }
+}
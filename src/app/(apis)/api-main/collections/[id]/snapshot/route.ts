@@ -0,0 +1,74 @@
+import * as orm from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import { collections } from '@/db/schema/collections.ts';
+import { createCollectionSnapshot, getSnapshotBlock, toSnapshotCsv } from '@/snapshots/index.ts';
+import { snapshotParamsSchema } from '@/utils/params-validation.ts';
+import { withValidation } from '@/utils/validation.ts';
+
+// GET /collections/:id/snapshot - The holders of a collection (by ID or slug), with their item counts, at a block
+// (`?at_block=N`) or a time (`?at_timestamp=T`), the latest when neither is given. As JSON, or as a CSV download
+// with `?format=csv`, both come with the SHA-256 of the CSV (`sha` and the `x-snapshot-sha` header) to verify it later.
+// A time before the first indexed transfer, or after the last indexed block, is not found
+export const GET = withValidation(snapshotParamsSchema, async (_req, { params, searchQuery }) => {
+  const segments = await params;
+  const [collection] = await db
+    .select({ id: collections.id, slug: collections.slug })
+    .from(collections)
+    .where(
+      orm.or(
+        orm.eq(collections.id, segments.id as string),
+        orm.eq(collections.slug, segments.id as string),
+      ),
+    );
+
+  if (!collection) {
+    return {
+      status: 404,
+      message: 'Collection not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'This collection does not exist',
+            keys: [segments.id],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  const blockNumber = await getSnapshotBlock(db, searchQuery);
+
+  if (blockNumber === null) {
+    return {
+      status: 404,
+      message: 'Snapshot not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'This timestamp is outside the indexed range',
+            keys: [searchQuery.at_timestamp],
+            path: ['at_timestamp'],
+          },
+        ],
+      },
+    };
+  }
+  const snapshot = await createCollectionSnapshot(db, collection.id, blockNumber);
+
+  if (searchQuery.format === 'csv') {
+    return new Response(toSnapshotCsv(snapshot.data), {
+      headers: {
+        'content-type': 'text/csv; charset=utf-8',
+        'content-disposition': `attachment; filename="${collection.slug}-${blockNumber}.csv"`,
+        'x-snapshot-sha': snapshot.sha,
+        'x-snapshot-block': String(blockNumber),
+      },
+    });
+  }
+
+  return { data: snapshot };
+});
@@ -0,0 +1,49 @@
+import * as orm from 'drizzle-orm';
+
+import { getCollectionStats } from '@/collections/index.ts';
+import { db } from '@/db/index.ts';
+import { collections } from '@/db/schema/collections.ts';
+import { getHeaders } from '@/eths-library/utils.ts';
+import { collectionStatsParamsSchema } from '@/utils/params-validation.ts';
+import { withValidation } from '@/utils/validation.ts';
+
+// GET /collections/:id/stats - Holder and distribution metrics of a collection (by ID or slug): linked items
+// vs supply, unique and top holders (`?top=25`), concentration, first and last mint, and the transfer volume
+// by `?bucket=day|week|month`. Cached for 5 minutes, it changes only with new blocks
+export const GET = withValidation(
+  collectionStatsParamsSchema,
+  async (_req, { params, searchQuery }) => {
+    const segments = await params;
+    const [collection] = await db
+      .select({ id: collections.id, supply: collections.supply })
+      .from(collections)
+      .where(
+        orm.or(
+          orm.eq(collections.id, segments.id as string),
+          orm.eq(collections.slug, segments.id as string),
+        ),
+      );
+
+    if (!collection) {
+      return {
+        status: 404,
+        message: 'Collection not found',
+        error: {
+          issues: [
+            {
+              code: 'not_found',
+              message: 'This collection does not exist',
+              keys: [segments.id],
+              path: [],
+            },
+          ],
+        },
+      };
+    }
+
+    return {
+      data: await getCollectionStats(db, collection, searchQuery),
+      headers: getHeaders(300),
+    };
+  },
+);
@@ -0,0 +1,68 @@
+import { gunzipSync } from 'node:zlib';
+import * as orm from 'drizzle-orm';
+
+import { isNotModified, untrustedContentHeaders } from '@/content/index.ts';
+import { db } from '@/db/index.ts';
+import { whereIdOrNumber } from '@/db/queries/index.ts';
+import { attachments, ethscriptions } from '@/db/schema/index.ts';
+import { getAttachmentKey } from '@/indexer/attachments.ts';
+import { getStorage } from '@/storage/index.ts';
+import { ethscriptionParamsSchema } from '@/utils/params-validation.ts';
+import { withValidation } from '@/utils/validation.ts';
+
+// GET /ethscriptions/:id/attachment - Get the ESIP-8 attachment (blob) of an ethscription, by ID or number.
+// Attachments never change, so it's cached forever, and it's served gzipped as stored if the client accepts it
+export const GET = withValidation(ethscriptionParamsSchema, async (req, { params }) => {
+  const segments = await params;
+  const [attachment] = await db
+    .select({
+      attachment_sha: attachments.attachment_sha,
+      content_type: attachments.content_type,
+    })
+    .from(attachments)
+    .innerJoin(ethscriptions, orm.eq(attachments.ethscription_id, ethscriptions.id))
+    .where(whereIdOrNumber(segments.id));
+
+  const compressed = attachment
+    ? await getStorage().get(getAttachmentKey(attachment.attachment_sha))
+    : null;
+
+  if (!attachment || !compressed) {
+    return {
+      status: 404,
+      message: 'Attachment not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message:
+              'This ethscription does not exist, or it has no attachment, it is not an ESIP-8 compatible Blobscription',
+            keys: [segments.id],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  const gzip = /\bgzip\b/.test(req.headers.get('accept-encoding') || '');
+  // the gzipped and the identity bodies are different bytes, so each has its own (strong) ETag
+  const etag = gzip ? `"${attachment.attachment_sha}-gzip"` : `"${attachment.attachment_sha}"`;
+  const headers = new Headers({
+    'content-type': attachment.content_type,
+    'cache-control': 'public, max-age=31536000, immutable',
+    etag,
+    vary: 'Accept-Encoding',
+    ...untrustedContentHeaders,
+  });
+
+  if (isNotModified(req, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  if (gzip) {
+    headers.set('content-encoding', 'gzip');
+  }
+
+  return new Response(gzip ? compressed : new Uint8Array(gunzipSync(compressed)), { headers });
+});
@@ -0,0 +1,89 @@
+import * as orm from 'drizzle-orm';
+import { hexToString } from 'viem';
+
+import {
+  createContentResponse,
+  decodeDataUriContent,
+  getContent,
+  getDataUriContentType,
+  putContent,
+} from '@/content/index.ts';
+import { db } from '@/db/index.ts';
+import { whereIdOrNumber } from '@/db/queries/index.ts';
+import { ethscriptions, transactions } from '@/db/schema/index.ts';
+import { TRUNCATED_DATA_LENGTH } from '@/indexer/constants.ts';
+import { getStorage } from '@/storage/index.ts';
+import { ethscriptionParamsSchema } from '@/utils/params-validation.ts';
+import { withValidation } from '@/utils/validation.ts';
+
+// GET /ethscriptions/:id/content - Get the decoded content of an ethscription, by ID or number,
+// supports byte ranges (`Range: bytes=0-1023`), and it's cached forever by its `content_sha`
+export const GET = withValidation(ethscriptionParamsSchema, async (req, { params }) => {
+  const segments = await params;
+  const [ethscription] = await db
+    .select({
+      content_sha: ethscriptions.content_sha,
+      content_type: ethscriptions.content_type,
+      truncated_data_raw: transactions.truncated_data_raw,
+    })
+    .from(ethscriptions)
+    .leftJoin(transactions, orm.eq(ethscriptions.id, transactions.transaction_hash))
+    .where(whereIdOrNumber(segments.id));
+
+  if (!ethscription) {
+    return {
+      status: 404,
+      message: 'Ethscription not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'This transaction does not exist, or there is no Ethscription on it.',
+            keys: [segments.id],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  const storage = getStorage();
+  let bytes = await getContent(storage, ethscription.content_sha);
+
+  // Not in the store (indexed before the content was stored), but when the calldata is shorter
+  // than the truncation limit, the truncated data is the whole data URI, so it's decoded and stored now
+  const raw = ethscription.truncated_data_raw || '0x';
+  const uri = hexToString(raw as `0x${string}`);
+  const isWhole = (raw.length - 2) / 2 < TRUNCATED_DATA_LENGTH;
+  const content = bytes || !isWhole ? null : await decodeDataUriContent(uri);
+
+  if (content) {
+    bytes = content.bytes;
+    await putContent(storage, ethscription.content_sha, bytes);
+  }
+
+  if (!bytes) {
+    return {
+      status: 404,
+      message: 'Content not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'The content of this ethscription is not stored locally',
+            keys: [segments.id],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  // the stored `content_type` is only the media type, the charset is in the header of the data URI,
+  // which is always at the start of the truncated data
+  return createContentResponse(req, {
+    bytes,
+    content_type: getDataUriContentType(uri) || ethscription.content_type,
+    sha: ethscription.content_sha,
+  });
+});
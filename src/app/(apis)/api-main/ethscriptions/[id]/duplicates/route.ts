@@ -0,0 +1,64 @@
+import { eq, ne } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import {
+  ethscriptionOrder,
+  ethscriptionSorts,
+  findList,
+  whereIdOrNumber,
+} from '@/db/queries/index.ts';
+import { ethscriptions } from '@/db/schema/index.ts';
+import { ethscriptionParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+// GET /ethscriptions/:id/duplicates - List all ESIP-6 duplicates sharing the same content (content_sha),
+// the ethscription itself is not included, oldest first (or `?sort=-number`), with `page_key` cursors like the list
+export const GET = withValidation(
+  ethscriptionParamsSchema,
+  async (req, { params, searchQuery }) => {
+    const segments = await params;
+    const [ethscription] = await db
+      .select({ id: ethscriptions.id, content_sha: ethscriptions.content_sha })
+      .from(ethscriptions)
+      .where(whereIdOrNumber(segments.id));
+
+    if (!ethscription) {
+      return {
+        status: 404,
+        message: 'Ethscription not found',
+        error: {
+          issues: [
+            {
+              code: 'not_found',
+              message: 'This transaction does not exist, or there is no Ethscription on it.',
+              keys: [segments.id],
+              path: [],
+            },
+          ],
+        },
+      };
+    }
+
+    const list = await findList(db, {
+      table: ethscriptions,
+      query: db.select().from(ethscriptions).$dynamic(),
+      fields: {},
+      order: ethscriptionOrder,
+      sorts: ethscriptionSorts,
+      // oldest first, unless `?order=desc`
+      searchQuery: { ...searchQuery, order: searchQuery.order || 'asc' },
+      searchParams: new URL(req.url).searchParams,
+      conditions: [
+        eq(ethscriptions.content_sha, ethscription.content_sha),
+        eq(ethscriptions.is_esip6, true),
+        ne(ethscriptions.id, ethscription.id),
+      ],
+    });
+
+    return {
+      pagination: list.pagination,
+      data: withIncludesExcludes(list.data, searchQuery),
+      status: 200,
+    };
+  },
+);
@@ -0,0 +1,47 @@
+import { eq } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import { getOwnershipPeriods, TRANSFERS_ORDER_ASC, whereIdOrNumber } from '@/db/queries/index.ts';
+import { ethscriptions, transfers } from '@/db/schema/index.ts';
+import { ownersParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+// GET /ethscriptions/:id/owners - The ownership history of an ethscription, by ID or number, oldest owner first.
+// With `?at_block=N` it's only the owner at the end of block N, replayed from the transfers up to it
+export const GET = withValidation(ownersParamsSchema, async (_req, { params, searchQuery }) => {
+  const segments = await params;
+  const [ethscription] = await db
+    .select({ id: ethscriptions.id, block_number: ethscriptions.block_number })
+    .from(ethscriptions)
+    .where(whereIdOrNumber(segments.id));
+
+  const notFound = (message: string) => ({
+    status: 404,
+    message: 'Ethscription not found',
+    error: { issues: [{ code: 'not_found', message, keys: [segments.id], path: [] }] },
+  });
+
+  if (!ethscription) {
+    return notFound('This transaction does not exist, or there is no Ethscription on it.');
+  }
+
+  const atBlock = searchQuery.at_block;
+
+  if (typeof atBlock === 'number' && atBlock < ethscription.block_number) {
+    return notFound(`This ethscription was created after block ${atBlock}`);
+  }
+
+  const history = await db
+    .select()
+    .from(transfers)
+    .where(eq(transfers.ethscription_id, ethscription.id))
+    .orderBy(...TRANSFERS_ORDER_ASC);
+
+  const periods = getOwnershipPeriods(history);
+  const results =
+    typeof atBlock === 'number'
+      ? periods.filter((period) => period.from_block <= atBlock).slice(-1)
+      : periods;
+
+  return { data: withIncludesExcludes(results, searchQuery) };
+});
@@ -3,7 +3,9 @@
 import * as orm from 'drizzle-orm';
 
 import { db } from '@/db/index.ts';
-import { ethscriptions } from '@/db/schema/ethscriptions.ts';
+import { whereIdOrNumber } from '@/db/queries/index.ts';
+import { ethscriptions, transfers } from '@/db/schema/index.ts';
+import { protocols } from '@/protocols/index.ts';
 import { ethscriptionParamsSchema } from '@/utils/params-validation.ts';
 import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
 
@@ -12,16 +14,11 @@ export const GET = withValidation(
   ethscriptionParamsSchema,
   async (_req, { params, searchQuery }) => {
     const segments = await params;
-    const query = db
-      .select()
-      .from(ethscriptions)
-      .where(
-        orm.or(
-          orm.eq(ethscriptions.id, segments.id as string),
-          orm.eq(ethscriptions.number, segments.id as number),
-        ),
-      );
-    const results = await query;
+    const query = db.select().from(ethscriptions).where(whereIdOrNumber(segments.id));
+    const rows = await query;
+    const results = searchQuery.expand?.includes('protocol')
+      ? await protocols.attach(db, rows)
+      : rows;
 
     if (results.length === 0) {
       return {
@@ -40,6 +37,26 @@ export const GET = withValidation(
       };
     }
 
+    // Transfers are listed oldest first, the creation first, so that ESIP-5 bulk transfers
+    // sharing the same `transaction_hash` are kept together in their calldata order (`bulk_index`)
+    if (searchQuery.expand?.includes('transfers')) {
+      const items = await db
+        .select()
+        .from(transfers)
+        .where(orm.eq(transfers.ethscription_id, results[0].id))
+        .orderBy(
+          orm.asc(transfers.block_number),
+          orm.asc(transfers.transaction_index),
+          orm.asc(transfers.event_log_index),
+          orm.asc(transfers.bulk_index),
+          orm.asc(transfers.index),
+        );
+
+      return {
+        data: withIncludesExcludes([{ ...results[0], transfers: items }], searchQuery),
+      };
+    }
+
     return { data: withIncludesExcludes(results, searchQuery) };
   },
 );
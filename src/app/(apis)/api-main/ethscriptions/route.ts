@@ -1,15 +1,27 @@
-import { and, asc, desc, eq, gt, gte, like, lt, lte, sql } from 'drizzle-orm';
-// NOTE: used for selecting proper operators for the where clause
-import * as orm from 'drizzle-orm';
+import { eq, like, sql } from 'drizzle-orm';
 
 import { db } from '@/db/index.ts';
-import { collections, ethscriptions, transactions, transfers, votes } from '@/db/schema/index.ts';
+import {
+  ethscriptionOrder,
+  ethscriptionSorts,
+  findList,
+  type ListFields,
+} from '@/db/queries/index.ts';
+import {
+  attachments,
+  collections,
+  ethscriptions,
+  transactions,
+  transfers,
+  votes,
+} from '@/db/schema/index.ts';
+import { protocols } from '@/protocols/index.ts';
 import { ethscriptionParamsSchema } from '@/utils/params-validation.ts';
 import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
 
 // /api/ethscriptions?limit=50
 
-// &expand=collection,transfers,votes
+// &expand=collection,protocol,transfers,votes
 // &exclude=is*,media*,*owner,collection.*,transfers.*
 // &include=current_owner,collection.name,collection.desc*,transfers.*address,transfers.transaction_hash
 // &collection_id=true
@@ -17,6 +29,7 @@ import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
 // &transaction_index=gt:10
 // &content_sha=1DF4*
 // &creator=0xa20c*
+// &has_attachment=true
 
 // can use nested `where` clause too
 // &where[block_number][gt]=4535&where[block_number][lt]=4545
@@ -25,18 +38,56 @@ import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
 // &where[content_sha][like]=0xF591*
 // &where[media_subtype][like]=vnd.*
 
-// can have cursor-based pagination with `page_key={1}_{2}` where first is block_number, second is transaction_index
-// &page_key=4000_10
+// `where` operators are eq, gt, lt, gte, lte, like, in, nin and is_null, every value is validated like its filter
+// &where[media_type][in]=image,video
+// &where[creator][nin][]=0xa20c...&where[creator][nin][]=0xd5f1...
+// &where[collection_id][is_null]=false
+
+// and the fields can be grouped with `and`, `or` (lists of clauses) and `not`, any number of levels deep,
+// like "created or owned by 0xa20c..., and is an image"
+// &where[or][0][creator][eq]=0xa20c...&where[or][1][current_owner][eq]=0xa20c...&where[media_type][eq]=image
+// &where[not][or][0][is_esip6][eq]=true&where[not][or][1][media_subtype][like]=svg*
+
+// can have cursor-based pagination with the opaque `page_key` of the previous response, and `prev_page_key` to go back,
+// they are signed and only valid for the same sort order and filters
+// &page_key=eyJ2IjozLCJkaXIiOiJuZXh0Iiwic29ydCI6Ii1ibG9ja19udW1iZXIsLXRyYW5zYWN0aW9uX2luZGV4IiwiZmlsdGVycyI6IjRmNTNjZGExOGMyYmFhMGMiLCJrZXlzIjpbMTAwLDFdfQ.mJntZKCRy-0rr8xTEQ8PQ4y1t2uMHohShshbU3XpSE8
+
+// can be sorted by `number`, `block_number` or `block_timestamp`, descending with a `-`, in the creation order after them
+// &sort=-block_timestamp,number
 
 // can have page-based pagination too, just use `page=3`, there's also `next` and `prev` for navigation
 
+// the `total` is the count of the filtered ones, `count=estimate` stops counting at 10k and `count=none` skips it
+// &count=none
+
+const fields: ListFields = {
+  number: { type: 'number', column: ethscriptions.number },
+  block_number: { type: 'number', column: ethscriptions.block_number },
+  block_timestamp: { type: 'number', column: ethscriptions.block_timestamp },
+  transaction_index: { type: 'number', column: ethscriptions.transaction_index },
+  updated_at: { type: 'number', column: ethscriptions.updated_at },
+
+  id: { type: 'text', column: ethscriptions.id },
+  media_type: { type: 'text', column: ethscriptions.media_type },
+  media_subtype: { type: 'text', column: ethscriptions.media_subtype },
+  content_type: { type: 'text', column: ethscriptions.content_type },
+  content_sha: { type: 'text', column: ethscriptions.content_sha },
+  creator: { type: 'text', column: ethscriptions.creator },
+  initial_owner: { type: 'text', column: ethscriptions.initial_owner },
+  current_owner: { type: 'text', column: ethscriptions.current_owner },
+  previous_owner: { type: 'text', column: ethscriptions.previous_owner },
+  // `?collection_id=true|false|null` is whether it's in any collection
+  collection_id: { type: 'text', column: ethscriptions.collection_id, param: false },
+
+  is_esip0: { type: 'boolean', column: ethscriptions.is_esip0 },
+  is_esip3: { type: 'boolean', column: ethscriptions.is_esip3 },
+  is_esip4: { type: 'boolean', column: ethscriptions.is_esip4 },
+  is_esip6: { type: 'boolean', column: ethscriptions.is_esip6 },
+  is_esip8: { type: 'boolean', column: ethscriptions.is_esip8 },
+};
+
 export const GET = withValidation(ethscriptionParamsSchema, async (req, { searchQuery }) => {
   const searchParams = new URL(req.url).searchParams;
-  const offset = searchQuery.page_key ? 0 : (searchQuery.page - 1) * searchQuery.page_size;
-
-  const [{ total }] = await db
-    .select({ total: orm.sql<number>`COUNT(*) OVER()` })
-    .from(ethscriptions);
 
   // Base query with ethscriptions fields
   const baseQuery = {
@@ -116,6 +167,11 @@ export const GET = withValidation(ethscriptionParamsSchema, async (req, { search
           ethscription_id: transfers.ethscription_id,
           index: transfers.index,
           event_log_index: transfers.event_log_index,
+          is_esip1: transfers.is_esip1,
+          is_esip2: transfers.is_esip2,
+          enforced_previous_owner: transfers.enforced_previous_owner,
+          is_esip5: transfers.is_esip5,
+          bulk_index: transfers.bulk_index,
           block_blockhash: transfers.block_blockhash,
           block_number: transfers.block_number,
           block_timestamp: transfers.block_timestamp,
@@ -142,7 +198,7 @@ export const GET = withValidation(ethscriptionParamsSchema, async (req, { search
     }
   }
 
-  const query = db.select(baseQuery).from(ethscriptions);
+  const query = db.select(baseQuery).from(ethscriptions).$dynamic();
 
   // Add joins for expanded relations
   if (searchQuery.expand) {
@@ -165,48 +221,6 @@ export const GET = withValidation(ethscriptionParamsSchema, async (req, { search
 
   const conditions: any[] = [];
 
-  // Number-based filters with comparison operators
-  for (const field of [
-    'number',
-    'block_number',
-    'block_timestamp',
-    'transaction_index',
-    'updated_at',
-  ]) {
-    if (searchParams.has(field)) {
-      const val = searchQuery[field];
-      const value = (val as any).value ?? val;
-      const [op, num] = searchParams.get(field)?.includes(':') ? [val.op, value] : ['eq', value];
-
-      switch (op) {
-        case 'gt': {
-          conditions.push(gt(ethscriptions[field], num));
-          break;
-        }
-        case 'lt': {
-          conditions.push(lt(ethscriptions[field], num));
-          break;
-        }
-        case 'gte': {
-          conditions.push(gte(ethscriptions[field], num));
-          break;
-        }
-        case 'lte': {
-          conditions.push(lte(ethscriptions[field], num));
-          break;
-        }
-        case 'range': {
-          const { min, max } = val;
-          conditions.push(gte(ethscriptions[field], min), lte(ethscriptions[field], max));
-          break;
-        }
-        default: {
-          conditions.push(eq(ethscriptions[field], num));
-        }
-      }
-    }
-  }
-
   if (searchQuery.collection_id) {
     const value = searchQuery.collection_id;
 
@@ -227,110 +241,29 @@ export const GET = withValidation(ethscriptionParamsSchema, async (req, { search
     }
   }
 
-  // Text-based filters with support for like operator
-  for (const field of [
-    'id',
-    'media_type',
-    'media_subtype',
-    'content_type',
-    'content_sha',
-    'creator',
-    'initial_owner',
-    'current_owner',
-    'previous_owner',
-  ]) {
-    if (searchParams.has(field)) {
-      const value = searchQuery[field];
-      const val = value.includes('*') ? value.replaceAll('*', '%') : value;
-      conditions.push(
-        value.includes('*') ? like(ethscriptions[field], val) : eq(ethscriptions[field], val),
-      );
-    }
-  }
-
-  // Boolean ESIP filters
-  for (const field of ['is_esip0', 'is_esip3', 'is_esip4', 'is_esip6', 'is_esip8']) {
-    if (searchParams.has(field)) {
-      conditions.push(eq(ethscriptions[field], searchQuery[field]));
-    }
-  }
-
-  // Apply conditions and pagination
-  if (conditions.length > 0) {
-    query.where(and(...conditions));
-  }
-
-  const isCursor = searchQuery.page_key ? searchQuery.page_key.length > 0 : false;
-  const isAscending = searchQuery.order === 'asc';
-  const order = isAscending ? asc : desc;
-
-  if (isCursor) {
-    // Parse the composite cursor
-    const [blockNumber, txIndex] = searchQuery.page_key?.split('_').map(Number) as [number, number];
-
-    // Add cursor conditions using block_number and transaction_index
-    if (isAscending) {
-      conditions.push(
-        sql`(${ethscriptions.block_number}, ${ethscriptions.transaction_index}) > (${blockNumber}, ${txIndex})`,
-      );
-    } else {
-      conditions.push(
-        sql`(${ethscriptions.block_number}, ${ethscriptions.transaction_index}) < (${blockNumber}, ${txIndex})`,
-      );
-    }
-  }
-
-  // Apply conditions and ordering, if it's not a `where` query param clause
-  // if it is a `where` clause, then we construct the query based on the `where` object
-  if (!searchQuery.where && conditions.length > 0) {
-    query.where(and(...conditions));
-  } else if (searchQuery.where) {
-    const conds: any = [];
-
-    for (const [key, spec] of Object.entries(searchQuery.where)) {
-      for (const [op, value] of Object.entries(spec) as [string, any][]) {
-        const val = value.includes('*') ? value.replaceAll('*', '%') : value;
-
-        console.log({ op, key, val, value, spec });
-        conds.push(orm[op](ethscriptions[key], val));
-      }
-    }
-    query.where(and(...conds));
+  if (searchParams.has('has_attachment')) {
+    const stored = sql`EXISTS (SELECT 1 FROM ${attachments} WHERE ${attachments.ethscription_id} = ${ethscriptions.id})`;
+    conditions.push(searchQuery.has_attachment ? stored : sql`NOT ${stored}`);
   }
 
-  // Order by both block_number and transaction_index
-  query.orderBy(order(ethscriptions.block_number), order(ethscriptions.transaction_index));
-  query.limit(searchQuery.page_size);
-
-  if (!isCursor) {
-    query.offset(offset);
-  }
-
-  const results = await query;
-  const left = total - searchQuery.page_size;
-  const has_next = total > offset + searchQuery.page_size ? searchQuery.page + 1 : null;
-  const nextCursor = has_next
-    ? `${results.at(-1)?.block_number}_${results.at(-1)?.transaction_index}`
-    : null;
+  const list = await findList<{ id: string }>(db, {
+    table: ethscriptions,
+    query,
+    fields,
+    order: ethscriptionOrder,
+    sorts: ethscriptionSorts,
+    searchQuery,
+    searchParams,
+    conditions,
+  });
+
+  // meta protocol data is in one table per protocol, so it's merged in after the query
+  const results = searchQuery.expand?.includes('protocol')
+    ? await protocols.attach(db, list.data)
+    : list.data;
 
   return {
-    pagination: isCursor
-      ? {
-          total,
-          page_size: searchQuery.page_size,
-          page_key: nextCursor || null,
-          has_more: left > 0,
-        }
-      : {
-          total,
-          pages: Math.ceil(total / searchQuery.page_size),
-          page: searchQuery.page,
-          prev: searchQuery.page > 1 ? searchQuery.page - 1 : null,
-          next: has_next,
-          page_size: searchQuery.page_size,
-          page_key: nextCursor || null,
-          has_more: Boolean(has_next),
-        },
+    pagination: list.pagination,
     data: withIncludesExcludes(results, searchQuery),
     status: 200,
   };
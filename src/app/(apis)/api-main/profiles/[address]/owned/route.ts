@@ -0,0 +1,62 @@
+import { eq, inArray } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import {
+  ethscriptionOrder,
+  ethscriptionSorts,
+  findList,
+  getOwnedIdsAt,
+} from '@/db/queries/index.ts';
+import { ethscriptions } from '@/db/schema/index.ts';
+import { resolveName } from '@/names/index.ts';
+import { ownedParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+// GET /profiles/:address/owned - The ethscriptions an address (or the owner of an Ethscription Name) owns,
+// newest first (or `?sort=number`). With `?at_block=N` it's the holdings at the end of block N, replayed from
+// the transfers up to it
+export const GET = withValidation(ownedParamsSchema, async (req, { params, searchQuery }) => {
+  const segments = await params;
+  const value = String(segments.address);
+  const address = /^0x[\dA-Fa-f]{40}$/.test(value)
+    ? value.toLowerCase()
+    : await resolveName(db, value);
+
+  if (!address) {
+    return {
+      status: 404,
+      message: 'Profile not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'Not an address, nor a registered Ethscription Name',
+            keys: [segments.address],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  const list = await findList(db, {
+    table: ethscriptions,
+    query: db.select().from(ethscriptions).$dynamic(),
+    fields: {},
+    order: ethscriptionOrder,
+    sorts: ethscriptionSorts,
+    searchQuery,
+    searchParams: new URL(req.url).searchParams,
+    conditions: [
+      typeof searchQuery.at_block === 'number'
+        ? inArray(ethscriptions.id, getOwnedIdsAt(address, searchQuery.at_block))
+        : eq(ethscriptions.current_owner, address),
+    ],
+  });
+
+  return {
+    pagination: list.pagination,
+    data: withIncludesExcludes(list.data, searchQuery),
+    status: 200,
+  };
+});
@@ -0,0 +1,82 @@
+import { desc, eq, sql } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import { ethscriptions, profiles } from '@/db/schema/index.ts';
+import { getPrimaryName, resolveName } from '@/names/index.ts';
+import { profileParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+// GET /profiles/:address - Get the user profile of an address (or of the owner of an Ethscription Name),
+// from their latest profile ethscription, with all the versions (newest first) and the created/owned counts.
+// Addresses without a profile get the same shape, with `null` fields and no versions
+export const GET = withValidation(profileParamsSchema, async (_req, { params, searchQuery }) => {
+  const segments = await params;
+  const value = String(segments.address);
+  const address = /^0x[\dA-Fa-f]{40}$/.test(value)
+    ? value.toLowerCase()
+    : await resolveName(db, value);
+
+  if (!address) {
+    return {
+      status: 404,
+      message: 'Profile not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'Not an address, nor a registered Ethscription Name',
+            keys: [segments.address],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  const versions = await db
+    .select({
+      ethscription_id: profiles.ethscription_id,
+      block_number: profiles.block_number,
+      block_timestamp: profiles.block_timestamp,
+      transaction_index: profiles.transaction_index,
+      display_name: profiles.display_name,
+      bio: profiles.bio,
+      avatar: profiles.avatar,
+      links: profiles.links,
+      primary_name: profiles.primary_name,
+    })
+    .from(profiles)
+    .where(eq(profiles.creator, address))
+    .orderBy(desc(profiles.block_number), desc(profiles.transaction_index));
+
+  const [{ created, owned }] = await db
+    .select({
+      created: sql<number>`COUNT(*) FILTER (WHERE ${ethscriptions.creator} = ${address})`,
+      owned: sql<number>`COUNT(*) FILTER (WHERE ${ethscriptions.current_owner} = ${address})`,
+    })
+    .from(ethscriptions)
+    .where(
+      sql`${ethscriptions.creator} = ${address} OR ${ethscriptions.current_owner} = ${address}`,
+    );
+
+  const latest = versions[0];
+  const primary = await getPrimaryName(db, address);
+
+  const profile = {
+    address,
+    display_name: latest?.display_name ?? null,
+    bio: latest?.bio ?? null,
+    avatar: latest?.avatar ?? null,
+    links: latest?.links ?? {},
+    // the one from the profile when it's still owned, otherwise their oldest owned name
+    primary_name: primary?.name ?? null,
+    ethscription_id: latest?.ethscription_id ?? null,
+    block_number: latest?.block_number ?? null,
+    block_timestamp: latest?.block_timestamp ?? null,
+    created,
+    owned,
+    versions,
+  };
+
+  return { data: withIncludesExcludes([profile], searchQuery) };
+});
@@ -0,0 +1,80 @@
+import { eq } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import { findList, type ListFields, type ListOrder, type ListSorts } from '@/db/queries/index.ts';
+import { tokenBalances, tokens } from '@/db/schema/index.ts';
+import { tokenHoldersParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+const fields: ListFields = {
+  address: { type: 'text', column: tokenBalances.address, lowercase: true },
+  balance: { type: 'number', column: tokenBalances.balance },
+};
+
+// by balance, and by address between equal ones
+const order: ListOrder = [
+  { key: 'balance', column: tokenBalances.balance },
+  { key: 'address', column: tokenBalances.address },
+];
+
+const sorts: ListSorts = {
+  balance: tokenBalances.balance,
+  address: tokenBalances.address,
+};
+
+// GET /tokens/:tick/holders - List the holders of a token, largest balance first (`&order=asc` for the smallest),
+// filtered with `&address=0xa20c*` and `&balance=gte:1000`, or sorted with `&sort=address`
+export const GET = withValidation(
+  tokenHoldersParamsSchema,
+  async (req, { params, searchQuery }) => {
+    const segments = await params;
+    const tick = String(segments.tick).toLowerCase();
+    const [token] = await db
+      .select({ tick: tokens.tick, minted: tokens.minted })
+      .from(tokens)
+      .where(eq(tokens.tick, tick));
+
+    if (!token) {
+      return {
+        status: 404,
+        message: 'Token not found',
+        error: {
+          issues: [
+            {
+              code: 'not_found',
+              message: 'There is no valid deploy of this tick',
+              keys: [segments.tick],
+              path: [],
+            },
+          ],
+        },
+      };
+    }
+
+    const list = await findList<{ address: string; balance: number }>(db, {
+      table: tokenBalances,
+      query: db
+        .select({ address: tokenBalances.address, balance: tokenBalances.balance })
+        .from(tokenBalances)
+        .$dynamic(),
+      fields,
+      order,
+      sorts,
+      searchQuery,
+      searchParams: new URL(req.url).searchParams,
+      conditions: [eq(tokenBalances.tick, tick)],
+    });
+
+    // share of the minted supply, in percents
+    const results = list.data.map((holder) => ({
+      ...holder,
+      share: token.minted > 0 ? (holder.balance / token.minted) * 100 : 0,
+    }));
+
+    return {
+      pagination: list.pagination,
+      data: withIncludesExcludes(results, searchQuery),
+      status: 200,
+    };
+  },
+);
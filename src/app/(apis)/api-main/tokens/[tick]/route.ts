@@ -0,0 +1,33 @@
+import { eq } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import { tokenColumns } from '@/db/queries/index.ts';
+import { tokens } from '@/db/schema/index.ts';
+import { tokenParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+// GET /tokens/:tick - Get a single "erc-20" token by its tick (case-insensitive)
+export const GET = withValidation(tokenParamsSchema, async (_req, { params, searchQuery }) => {
+  const segments = await params;
+  const tick = String(segments.tick).toLowerCase();
+  const results = await db.select(tokenColumns).from(tokens).where(eq(tokens.tick, tick));
+
+  if (results.length === 0) {
+    return {
+      status: 404,
+      message: 'Token not found',
+      error: {
+        issues: [
+          {
+            code: 'not_found',
+            message: 'There is no valid deploy of this tick',
+            keys: [segments.tick],
+            path: [],
+          },
+        ],
+      },
+    };
+  }
+
+  return { data: withIncludesExcludes(results, searchQuery) };
+});
@@ -0,0 +1,64 @@
+import { db } from '@/db/index.ts';
+import {
+  findList,
+  tokenColumns,
+  type ListFields,
+  type ListOrder,
+  type ListSorts,
+} from '@/db/queries/index.ts';
+import { tokens } from '@/db/schema/index.ts';
+import { tokenParamsSchema } from '@/utils/params-validation.ts';
+import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
+
+// /api-main/tokens?page_size=50 - The "erc-20" tokens indexed by the local token ledger, by deploy order
+
+// &tick=eth*
+// &deployer=0xa20c*
+// &minted=gt:1000
+// &max_supply=range:1000,21000000
+// &include=tick,minted,holders
+// &sort=-minted,tick
+
+// can use nested `where` clause too, with the same grammar as the ethscriptions list
+// &where[minted][gt]=1000
+// &where[or][0][tick][in]=eths,gwei&where[or][1][minted][gte]=21000000
+
+const fields: ListFields = {
+  max_supply: { type: 'number', column: tokens.max_supply },
+  mint_limit: { type: 'number', column: tokens.mint_limit },
+  minted: { type: 'number', column: tokens.minted },
+  block_number: { type: 'number', column: tokens.block_number },
+
+  // ticks are always lowercase
+  tick: { type: 'text', column: tokens.tick, lowercase: true },
+  deployer: { type: 'text', column: tokens.deployer, lowercase: true },
+};
+
+const order: ListOrder = [
+  { key: 'block_number', column: tokens.block_number },
+  { key: 'transaction_index', column: tokens.transaction_index },
+];
+
+const sorts: ListSorts = {
+  tick: tokens.tick,
+  block_number: tokens.block_number,
+  minted: tokens.minted,
+};
+
+export const GET = withValidation(tokenParamsSchema, async (req, { searchQuery }) => {
+  const list = await findList(db, {
+    table: tokens,
+    query: db.select(tokenColumns).from(tokens).$dynamic(),
+    fields,
+    order,
+    sorts,
+    searchQuery,
+    searchParams: new URL(req.url).searchParams,
+  });
+
+  return {
+    pagination: list.pagination,
+    data: withIncludesExcludes(list.data, searchQuery),
+    status: 200,
+  };
+});
@@ -1,9 +1,5 @@
-// NOTE: used for selecting proper operators for the where clause
-import * as orm from 'drizzle-orm';
-
-// NOTE: used for selecting proper operators for the where clause
-
 import { db } from '@/db/index.ts';
+import { findList, type ListFields, type ListOrder, type ListSorts } from '@/db/queries/index.ts';
 import { votes } from '@/db/schema/index.ts';
 import { voteParamsSchema } from '@/utils/params-validation.ts';
 import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
@@ -11,12 +7,41 @@ import { withIncludesExcludes, withValidation } from '@/utils/validation.ts';
 // page_size=5&sort_by=rank&order=desc - default sort by rank & vote time, order by desc
 // page_size=5&sort_by=voted_at - sort by vote time, order by desc
 // page_size=5&sort_by=voted_at&order=asc - sort by vote time and rank, order by asc
+// page_size=5&sort=-rank,voted_at - sort by rank descending and then vote time ascending
+
+const fields: ListFields = {
+  transaction_hash: { type: 'text', column: votes.transaction_hash },
+  ethscription_id: { type: 'text', column: votes.ethscription_id },
+  voter: { type: 'text', column: votes.voter },
+
+  voted_at: { type: 'number', column: votes.voted_at },
+  rank: { type: 'number', column: votes.rank },
+
+  up: { type: 'boolean', column: votes.up },
+  down: { type: 'boolean', column: votes.down },
+};
+
+// by rank and then vote time, or the other way around with `sort_by=voted_at`, the ID breaks the ties
+const orders: Record<'rank' | 'voted_at', ListOrder> = {
+  rank: [
+    { key: 'rank', column: votes.rank },
+    { key: 'voted_at', column: votes.voted_at },
+    { key: 'id', column: votes.id },
+  ],
+  voted_at: [
+    { key: 'voted_at', column: votes.voted_at },
+    { key: 'rank', column: votes.rank },
+    { key: 'id', column: votes.id },
+  ],
+};
+
+const sorts: ListSorts = {
+  rank: votes.rank,
+  voted_at: votes.voted_at,
+};
 
 // GET /api/votes - get all votes including filters and withIncludesExcludes
 export const GET = withValidation(voteParamsSchema, async (req, { searchQuery }) => {
-  const searchParams = new URL(req.url).searchParams;
-  const offset = searchQuery.page_key ? 0 : (searchQuery.page - 1) * searchQuery.page_size;
-
   const query = db
     .select({
       id: votes.id,
@@ -28,149 +53,22 @@ export const GET = withValidation(voteParamsSchema, async (req, { searchQuery })
       up: votes.up,
       down: votes.down,
     })
-    .from(votes);
-
-  const conditions: any = [];
-
-  // Text fields - exact match or contains
-  for (const field of ['transaction_hash', 'ethscription_id', 'voter']) {
-    if (searchParams.has(field)) {
-      const value = searchQuery[field];
-      const val = value.includes('*') ? value.replaceAll('*', '%') : value;
-
-      conditions.push(
-        value.includes('*') ? orm.like(votes[field], val) : orm.eq(votes[field], val),
-      );
-    }
-  }
-
-  // Number-based filters with comparison operators
-  for (const field of ['voted_at', 'rank']) {
-    if (searchParams.has(field)) {
-      const val = searchQuery[field];
-      const value = (val as any).value ?? val;
-      const [op, num] = searchParams.get(field)?.includes(':') ? [val.op, value] : ['eq', value];
-
-      switch (op) {
-        case 'gt': {
-          conditions.push(orm.gt(votes[field], num));
-          break;
-        }
-        case 'lt': {
-          conditions.push(orm.lt(votes[field], num));
-          break;
-        }
-        case 'gte': {
-          conditions.push(orm.gte(votes[field], num));
-          break;
-        }
-        case 'lte': {
-          conditions.push(orm.lte(votes[field], num));
-          break;
-        }
-        case 'range': {
-          const { min, max } = val;
-          conditions.push(orm.gte(votes[field], min), orm.lte(votes[field], max));
-          break;
-        }
-        default: {
-          conditions.push(orm.eq(votes[field], num));
-        }
-      }
-    }
-  }
-
-  // Boolean ESIP filters
-  for (const field of ['up', 'down']) {
-    if (searchParams.has(field)) {
-      conditions.push(orm.eq(votes[field], searchQuery[field]));
-    }
-  }
-
-  const isAscending = searchQuery.order === 'asc';
-  const order = isAscending ? orm.asc : orm.desc;
-
-  // !FIXED! LOVELY!
-  if (searchQuery.page_key) {
-    // Parse the composite cursor
-    let [rankNumber, timeVoted] = searchQuery.page_key?.split('_') || [];
-    let cond;
-
-    if (searchQuery.sort_by === 'rank') {
-      cond = isAscending
-        ? orm.sql`(${votes.rank}, ${votes.voted_at}) > (${rankNumber}, ${timeVoted})`
-        : orm.sql`(${votes.rank}, ${votes.voted_at}) < (${rankNumber}, ${timeVoted})`;
-    } else {
-      [timeVoted, rankNumber] = [rankNumber, timeVoted];
-
-      cond = isAscending
-        ? orm.sql`(${votes.voted_at}, ${votes.rank}) > (${timeVoted}, ${rankNumber})`
-        : orm.sql`(${votes.voted_at}, ${votes.rank}) < (${timeVoted}, ${rankNumber})`;
-    }
-    conditions.push(cond);
-  }
-
-  // Apply conditions and ordering, if it's not a `where` query param clause
-  // if it is a `where` clause, then we construct the query based on the `where` object
-  if (!searchQuery.where && conditions.length > 0) {
-    query.where(orm.and(...conditions));
-  } else if (searchQuery.where) {
-    for (const [key, spec] of Object.entries(searchQuery.where)) {
-      for (const [op, value] of Object.entries(spec)) {
-        // console.log({ op, key, value, spec });
-        const val = value.includes('*') ? value.replaceAll('*', '%') : value;
-        query.where(orm[op](votes[key], val));
-      }
-    }
-  }
-
-  // !FIXED! LOVELY!
-  if (searchQuery.sort_by === 'rank') {
-    query.orderBy(order(votes.rank), order(votes.voted_at));
-  } else {
-    query.orderBy(order(votes.voted_at), order(votes.rank));
-  }
-
-  query.limit(searchQuery.page_size);
-
-  if (!searchQuery.page_key) {
-    query.offset(offset);
-  }
-
-  const res = await query;
-  const results = res;
-
-  const [{ total }] = await db.select({ total: orm.sql<number>`COUNT(*) OVER()` }).from(votes);
-  const left = total - searchQuery.page_size;
-  const has_next = total > offset + searchQuery.page_size ? searchQuery.page + 1 : null;
-  // const nextCursor = has_next ? res[res.length - 1]?.id : null;
-  let nextCursor;
-
-  if (searchQuery.sort_by === 'rank') {
-    nextCursor = has_next ? `${results.at(-1)?.rank}_${results.at(-1)?.voted_at}` : null;
-  } else {
-    nextCursor = has_next ? `${results.at(-1)?.voted_at}_${results.at(-1)?.rank}` : null;
-  }
+    .from(votes)
+    .$dynamic();
+
+  const list = await findList(db, {
+    table: votes,
+    query,
+    fields,
+    order: orders[searchQuery.sort_by],
+    sorts,
+    searchQuery,
+    searchParams: new URL(req.url).searchParams,
+  });
 
   return {
-    pagination: searchQuery.page_key
-      ? {
-          total,
-          page_size: searchQuery.page_size,
-          page_key: nextCursor || null,
-          has_more: left > 0,
-        }
-      : {
-          total,
-          pages: Math.ceil(total / searchQuery.page_size),
-          page: searchQuery.page,
-          prev: searchQuery.page > 1 ? searchQuery.page - 1 : null,
-          next: has_next,
-          page_size: results.length > 0 ? results.length : 0,
-          page_key: nextCursor || null,
-          has_more: Boolean(has_next),
-        },
-    data: withIncludesExcludes(results, searchQuery),
+    pagination: list.pagination,
+    data: withIncludesExcludes(list.data, searchQuery),
     status: 200,
   };
 });
@@ -0,0 +1,36 @@
+/* eslint-disable unicorn/no-process-exit */
+/* eslint-disable unicorn/prefer-top-level-await */
+/* eslint-disable promise/prefer-await-to-callbacks */
+
+// bun run collections:rarity
+// COLLECTION=mickey-mouse bun run collections:rarity
+
+import { eq, or } from 'drizzle-orm';
+
+import { db } from '@/db/index.ts';
+import { collections } from '@/db/schema/index.ts';
+import { updateCollectionRarity } from './rarity.ts';
+
+async function main() {
+  const value = process.env.COLLECTION;
+  const rows = await db
+    .select({ id: collections.id, slug: collections.slug })
+    .from(collections)
+    .where(value ? or(eq(collections.id, value), eq(collections.slug, value)) : undefined);
+
+  if (value && rows.length === 0) {
+    throw new Error(`Collection not found: ${value}`);
+  }
+
+  for (const collection of rows) {
+    // eslint-disable-next-line no-await-in-loop
+    const count = await updateCollectionRarity(db, collection.id);
+
+    console.log(`Rarity of ${collection.slug} computed, ${count} items ranked`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Error during rarity computation:', err);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+/* eslint-disable unicorn/no-process-exit */
+/* eslint-disable unicorn/prefer-top-level-await */
+/* eslint-disable promise/prefer-await-to-callbacks */
+
+// ORDEX_COLLECTION=mfpurrs bun run collections:ordex
+// ORDEX_COLLECTION=mfpurrs ORDEX_CONTINUATION='148.42276#ETHEREUM_ETHSCRIPTION:0x1b3d...' bun run collections:ordex
+// ORDEX_COLLECTION=mfpurrs ORDEX_FIXTURE=./src/utils/ordex-stuff/collection-resp-body.json bun run collections:ordex
+
+import { readFile } from 'node:fs/promises';
+
+import { db } from '@/db/index.ts';
+import { createOrdexFixtureFetcher, importOrdexCollection } from './ordex.ts';
+
+async function main() {
+  const slug = process.env.ORDEX_COLLECTION;
+
+  if (!slug) {
+    throw new Error('ORDEX_COLLECTION is not defined');
+  }
+
+  // a single `/item/search` response, or `{ collection, pages }`
+  const fixture = process.env.ORDEX_FIXTURE
+    ? JSON.parse(await readFile(process.env.ORDEX_FIXTURE, 'utf8'))
+    : null;
+
+  const result = await importOrdexCollection(db, slug, {
+    fetcher: fixture
+      ? createOrdexFixtureFetcher('items' in fixture ? { pages: [fixture] } : fixture)
+      : undefined,
+    continuation: process.env.ORDEX_CONTINUATION,
+    onPage: (page) => {
+      console.log(
+        `Imported ${page.imported} items (${page.failed} failed), continuation: ${page.continuation}`,
+      );
+    },
+  });
+
+  console.log(
+    `Collection ${result.slug} ${result.created ? 'created' : 'updated'}, ${result.imported} items imported, ${result.failed} failed`,
+  );
+}
+
+main().catch((err) => {
+  console.error('Error during Ordex import:', err);
+  process.exit(1);
+});
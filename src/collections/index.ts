@@ -0,0 +1,5 @@
+export * from './items.ts';
+export * from './manifest.ts';
+export * from './ordex.ts';
+export * from './rarity.ts';
+export * from './stats.ts';
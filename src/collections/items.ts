@@ -0,0 +1,43 @@
+import { eq, sql, type SQL } from 'drizzle-orm';
+
+import { collectionItems, ethscriptions } from '@/db/schema/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+
+// Trait filters, by trait type, the values of the same trait are OR-ed and different traits are AND-ed,
+// so `?trait[hat]=cowboy hat&trait[hat]=beanie&trait[background]=purple` is any of the hats on purple
+export type TraitFilters = Record<string, string[]>;
+
+// The count of items for every trait value, by trait type, `{ hat: { 'cowboy hat': 12, beanie: 3 } }`
+export type TraitFacets = Record<string, Record<string, number>>;
+
+// Values are compared as text, so `?trait[rarity]=5255` matches both `5255` and `"5255"`
+const traitValue = sql`CAST(json_extract(attr.value, '$.value') AS TEXT)`;
+const traitType = sql`json_extract(attr.value, '$.trait_type')`;
+
+export function getTraitConditions(traits: TraitFilters = {}) {
+  return Object.entries(traits).map(
+    ([type, values]) =>
+      sql`EXISTS (SELECT 1 FROM json_each(${collectionItems.attributes}) AS attr WHERE ${traitType} = ${type} AND ${traitValue} IN (${sql.join(
+        values.map((value) => sql`${value}`),
+        sql`, `,
+      )}))`,
+  );
+}
+
+// Trait counts over the collection items (ethscriptions joined with their item metadata) matching `where`
+export async function getTraitFacets(db: DbClient, where?: SQL) {
+  const rows = await db.all<{ trait_type: string; value: string; count: number }>(
+    sql`SELECT ${traitType} AS trait_type, ${traitValue} AS value, COUNT(*) AS count FROM ${ethscriptions} INNER JOIN ${collectionItems} ON ${eq(
+      collectionItems.ethscription_id,
+      ethscriptions.id,
+    )}, json_each(${collectionItems.attributes}) AS attr WHERE ${where ?? sql`1`} GROUP BY trait_type, value ORDER BY trait_type ASC, count DESC, value ASC`,
+  );
+
+  const facets: TraitFacets = {};
+
+  for (const row of rows) {
+    facets[row.trait_type] = { ...facets[row.trait_type], [row.value]: Number(row.count) };
+  }
+
+  return facets;
+}
@@ -0,0 +1,191 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+import {
+  collectionItems,
+  collections,
+  ethscriptions,
+  type CollectionManifestItem,
+} from '@/db/schema/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+import { resolveName } from '@/names/index.ts';
+import { updateCollectionRarity } from './rarity.ts';
+
+// Keeps the bound parameters of a single statement well under the SQLite limit
+const MANIFEST_BATCH_SIZE = 500;
+
+export type ManifestFailureCode =
+  | 'not_found'
+  | 'sha_mismatch'
+  | 'duplicate'
+  | 'other_collection'
+  | 'not_team';
+
+export type ManifestFailure = {
+  index: number;
+  ethscription_id: string | null;
+  sha: string | null;
+  code: ManifestFailureCode;
+  message: string;
+};
+
+type ManifestMatch = {
+  id: string;
+  content_sha: string;
+  creator: string;
+  collection_id: string | null;
+};
+
+function toBatches<T>(values: T[]) {
+  return Array.from({ length: Math.ceil(values.length / MANIFEST_BATCH_SIZE) }, (_, idx) =>
+    values.slice(idx * MANIFEST_BATCH_SIZE, (idx + 1) * MANIFEST_BATCH_SIZE),
+  );
+}
+
+// The listed ethscriptions by ID, and by content SHA, where a SHA is the original (non ESIP-6) one
+async function findManifestItems(db: DbClient, items: CollectionManifestItem[]) {
+  const columns = {
+    id: ethscriptions.id,
+    content_sha: ethscriptions.content_sha,
+    creator: ethscriptions.creator,
+    collection_id: ethscriptions.collection_id,
+  };
+  const byId = new Map<string, ManifestMatch>();
+  const bySha = new Map<string, ManifestMatch>();
+
+  for (const ids of toBatches([...new Set(items.map((x) => x.id).filter(Boolean))] as string[])) {
+    // eslint-disable-next-line no-await-in-loop
+    const rows = await db.select(columns).from(ethscriptions).where(inArray(ethscriptions.id, ids));
+
+    for (const row of rows) byId.set(row.id, row);
+  }
+
+  const shas = items.filter((x) => !x.id && x.sha).map((x) => x.sha as string);
+
+  for (const batch of toBatches([...new Set(shas)])) {
+    // eslint-disable-next-line no-await-in-loop
+    const rows = await db
+      .select(columns)
+      .from(ethscriptions)
+      .where(and(inArray(ethscriptions.content_sha, batch), eq(ethscriptions.is_esip6, false)));
+
+    for (const row of rows) bySha.set(row.content_sha, row);
+  }
+
+  return { byId, bySha };
+}
+
+// The addresses of a collection team, names are resolved to their current owner locally, so ENS (`.eth`)
+// members can't be resolved and never match
+async function resolveTeam(db: DbClient, team: string[]) {
+  const addresses = await Promise.all(
+    team.map((member) => (/^0x[\dA-Fa-f]{40}$/.test(member) ? member : resolveName(db, member))),
+  );
+
+  return new Set(addresses.filter(Boolean).map((x) => (x as string).toLowerCase()));
+}
+
+function checkManifestItem(
+  item: CollectionManifestItem,
+  match: ManifestMatch | undefined,
+  context: { collectionId: string; team: Set<string> | null; seen: Set<string> },
+): [ManifestFailureCode, string] | null {
+  if (!match) {
+    return ['not_found', 'There is no such ethscription'];
+  }
+  if (item.sha && item.sha !== match.content_sha) {
+    return ['sha_mismatch', 'The content SHA of this ethscription does not match the given `sha`'];
+  }
+  if (context.seen.has(match.id)) {
+    return ['duplicate', 'This ethscription is listed more than once'];
+  }
+  if (match.collection_id && match.collection_id !== context.collectionId) {
+    return ['other_collection', 'This ethscription already belongs to another collection'];
+  }
+  if (context.team && !context.team.has(match.creator)) {
+    return ['not_team', 'This ethscription was not created by a member of the collection team'];
+  }
+
+  return null;
+}
+
+// Imports a collection manifest: verifies every item exists, and for verified collections, that it was
+// created by a team member. The valid items are linked to the collection (`ethscriptions.collection_id`) along
+// with their name, description and attributes in one transaction, the rest are reported back by manifest index.
+// The rarity of the whole collection is recomputed after it, as new items change the trait frequencies,
+// unless `rarity: false`, for imports in parts that compute it once at the end
+export async function importCollectionManifest(
+  db: DbClient,
+  collection: Pick<typeof collections.$inferSelect, 'id' | 'team' | 'verified'>,
+  items: CollectionManifestItem[],
+  options?: { rarity?: boolean },
+) {
+  const { byId, bySha } = await findManifestItems(db, items);
+  const context = {
+    collectionId: collection.id,
+    team: collection.verified ? await resolveTeam(db, collection.team) : null,
+    seen: new Set<string>(),
+  };
+
+  const accepted: (typeof collectionItems.$inferInsert)[] = [];
+  const failures: ManifestFailure[] = [];
+
+  for (const [index, item] of items.entries()) {
+    const match = item.id ? byId.get(item.id) : bySha.get(item.sha as string);
+    const failure = checkManifestItem(item, match, context);
+
+    if (failure) {
+      const [code, message] = failure;
+      failures.push({ index, ethscription_id: item.id, sha: item.sha, code, message });
+    } else if (match) {
+      context.seen.add(match.id);
+      accepted.push({
+        ethscription_id: match.id,
+        collection_id: collection.id,
+        name: item.name,
+        description: item.description,
+        attributes: item.attributes,
+      });
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    for (const batch of toBatches(accepted)) {
+      // eslint-disable-next-line no-await-in-loop
+      await tx
+        .update(ethscriptions)
+        .set({ collection_id: collection.id })
+        .where(
+          inArray(
+            ethscriptions.id,
+            batch.map((x) => x.ethscription_id),
+          ),
+        );
+
+      // eslint-disable-next-line no-await-in-loop
+      await tx
+        .insert(collectionItems)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: collectionItems.ethscription_id,
+          set: {
+            collection_id: sql`excluded.collection_id`,
+            name: sql`excluded.name`,
+            description: sql`excluded.description`,
+            attributes: sql`excluded.attributes`,
+          },
+        });
+    }
+  });
+
+  if (accepted.length > 0 && options?.rarity !== false) {
+    await updateCollectionRarity(db, collection.id);
+  }
+
+  return {
+    collection_id: collection.id,
+    total: items.length,
+    imported: accepted.length,
+    failed: failures.length,
+    failures,
+  };
+}
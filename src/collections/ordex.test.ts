@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { asc, eq } from 'drizzle-orm';
+import { stringToHex } from 'viem';
+
+import { collectionItems, collections, ethscriptions } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from '@/indexer/constants.ts';
+import { createBlockSource, createFixtureTransport, runIndexer } from '@/indexer/index.ts';
+import { createFixtureBlock, createTestDatabase } from '@/indexer/testing.ts';
+import page from '@/utils/ordex-stuff/collection-resp-body.json';
+import { createOrdexFixtureFetcher, importOrdexCollection } from './ordex.ts';
+
+const creator = `0x${'a'.repeat(40)}` as const;
+const ids = page.items.map(
+  (item) => item.id.replace('ETHEREUM_ETHSCRIPTION:', '') as `0x${string}`,
+);
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+describe('importOrdexCollection', () => {
+  test('links the indexed items to the collection, and counts the rest as failed', async () => {
+    // only the first three items of the page are indexed
+    const block = createFixtureBlock(
+      ESIP_5_START_BLOCK + 1000,
+      ids.slice(0, 3).map((hash, idx) => ({
+        hash,
+        from: creator,
+        to: creator,
+        input: stringToHex(`data:,mfpurr ${idx}`),
+      })),
+    );
+
+    await runIndexer({
+      db: ctx.db,
+      storage: ctx.storage,
+      source: createBlockSource(createFixtureTransport({ blocks: [block] })),
+      startBlock: ESIP_5_START_BLOCK + 1000,
+    });
+
+    const result = await importOrdexCollection(ctx.db, 'mfpurrs', {
+      fetcher: createOrdexFixtureFetcher({ pages: [page] }),
+    });
+
+    expect(result).toMatchObject({
+      slug: 'mfpurrs',
+      created: true,
+      imported: 3,
+      failed: ids.length - 3,
+      pages: 2,
+    });
+
+    const [collection] = await ctx.db
+      .select({ supply: collections.supply })
+      .from(collections)
+      .where(eq(collections.id, result.collection_id));
+    const items = await ctx.db
+      .select({
+        id: ethscriptions.id,
+        collection_id: ethscriptions.collection_id,
+        name: collectionItems.name,
+        attributes: collectionItems.attributes,
+        rarity_rank: collectionItems.rarity_rank,
+      })
+      .from(ethscriptions)
+      .innerJoin(collectionItems, eq(collectionItems.ethscription_id, ethscriptions.id))
+      .orderBy(asc(ethscriptions.transaction_index));
+
+    expect(collection.supply).toBe(3);
+    expect(items.map((x) => [x.id, x.collection_id, x.name])).toEqual(
+      page.items.slice(0, 3).map((item, idx) => [ids[idx], result.collection_id, item.meta.name]),
+    );
+    expect(items[0].attributes).toContainEqual({ trait_type: 'background', value: 'purple' });
+    expect(items.map((x) => x.rarity_rank).sort()).toEqual([1, 2, 3]);
+  });
+
+  test('resumes an interrupted import into the same collection', async () => {
+    const fetcher = createOrdexFixtureFetcher({ pages: [page] });
+
+    const first = await importOrdexCollection(ctx.db, 'mfpurrs', { fetcher });
+    const second = await importOrdexCollection(ctx.db, 'mfpurrs', {
+      fetcher,
+      continuation: page.continuation,
+    });
+
+    expect(second).toMatchObject({
+      collection_id: first.collection_id,
+      created: false,
+      imported: 0,
+      pages: 1,
+    });
+  });
+});
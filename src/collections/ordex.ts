@@ -0,0 +1,182 @@
+import { count, eq, or } from 'drizzle-orm';
+
+import {
+  collectionManifestSchema,
+  collections,
+  ethscriptions,
+  insertCollectionSchema,
+  type CollectionManifestItem,
+} from '@/db/schema/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+import { importCollectionManifest } from './manifest.ts';
+import { updateCollectionRarity } from './rarity.ts';
+
+const ORDEX_API_URL = 'https://api-next.ordex.io';
+const ORDEX_PAGE_SIZE = 100;
+
+// Anything `fetch`-like, so the importer can run against fixtures (see `createOrdexFixtureFetcher`)
+export type OrdexFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+// The `/item/search` responses, in order, and optionally the `/collection/:id` one
+export type OrdexFixture = {
+  collection?: Record<string, any>;
+  pages: { continuation?: string; items: Record<string, any>[] }[];
+};
+
+export type OrdexPage = {
+  items: CollectionManifestItem[];
+  // `null` on the last page
+  continuation: string | null;
+};
+
+// Serves the Ordex API from an in-memory fixture, like `collection-resp-body.json`. A page is returned for the
+// continuation of the one before it, and an unknown continuation is an empty last page
+export function createOrdexFixtureFetcher(fixture: OrdexFixture): OrdexFetcher {
+  return async (url, init) => {
+    if (url.endsWith('/item/search')) {
+      const { continuation } = JSON.parse(String(init?.body || '{}'));
+      const idx = continuation
+        ? fixture.pages.findIndex((page) => page.continuation === continuation) + 1
+        : 0;
+      const page = continuation && idx === 0 ? null : fixture.pages[idx];
+
+      return Response.json(page || { items: [] });
+    }
+
+    // without the collection response, its metadata is made up from the slug
+    const slug = url.split('ETHEREUM_ETHSCRIPTION:')[1];
+
+    return Response.json(
+      fixture.collection || {
+        meta: { name: slug, slug, description: slug, socialLinks: [], royalty: {}, content: [] },
+      },
+    );
+  };
+}
+
+async function requestOrdex(fetcher: OrdexFetcher, path: string, init?: RequestInit) {
+  const resp = await fetcher(`${ORDEX_API_URL}${path}`, init);
+  const body = await resp.json().catch(() => null);
+
+  if (!resp.ok || !body || body.errors) {
+    throw new Error(
+      `Ordex request to ${path} failed: ${body?.errors?.[0]?.message || resp.status}`,
+    );
+  }
+
+  return body;
+}
+
+// The collection metadata, as a new collection. The supply is not known until all the items are imported
+export async function fetchOrdexCollection(fetcher: OrdexFetcher, slug: string) {
+  const { meta } = await requestOrdex(fetcher, `/collection/ETHEREUM_ETHSCRIPTION:${slug}`);
+  const account = meta.royalty?.account?.replace('ETHEREUM:', '').toLowerCase();
+
+  return insertCollectionSchema.parse({
+    supply: 1,
+    slug: String(meta.slug || slug).toLowerCase(),
+    name: String(meta.name).replaceAll('-', ' '),
+    description: meta.description || String(meta.name),
+    logo: meta.content?.[0]?.url || undefined,
+    links: (meta.socialLinks || [])
+      .map(({ link }) => link)
+      .filter((link: string) => link?.startsWith('https://')),
+    team: account ? [account] : [],
+    royalties: account ? { [account]: meta.royalty.value / 100 } : {},
+    verified: false,
+  });
+}
+
+// A page of collection items, as manifest items, Ordex calls the attributes `key` instead of `trait_type`
+export async function fetchOrdexPage(
+  fetcher: OrdexFetcher,
+  slug: string,
+  continuation = '',
+): Promise<OrdexPage> {
+  const body = await requestOrdex(fetcher, '/item/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      size: ORDEX_PAGE_SIZE,
+      filter: {
+        blockchains: ['ETHEREUM_ETHSCRIPTION'],
+        collections: [`ETHEREUM_ETHSCRIPTION:${slug}`],
+        owners: [],
+        traits: [],
+        names: [],
+      },
+      sort: 'LOWEST_SELL',
+      continuation,
+    }),
+  });
+
+  const items = (body.items || []).map(({ id, meta }: any) => ({
+    ethscription_id: id.replace('ETHEREUM_ETHSCRIPTION:', ''),
+    name: meta.name,
+    description: meta.description || undefined,
+    attributes: (meta.attributes || []).map(({ key, value }) => ({ trait_type: key, value })),
+  }));
+
+  return {
+    items: items.length > 0 ? collectionManifestSchema.parse({ items }) : [],
+    continuation: items.length > 0 && body.continuation ? body.continuation : null,
+  };
+}
+
+// Imports an Ordex collection, and its items through the manifest import, page by page. An existing collection
+// with the same slug or name is reused, not duplicated, so an interrupted import can be resumed by passing
+// the last reported `continuation`. Items that are not indexed (yet) are counted as failed
+export async function importOrdexCollection(
+  db: DbClient,
+  slug: string,
+  options?: {
+    fetcher?: OrdexFetcher;
+    continuation?: string;
+    onPage?: (page: { continuation: string | null; imported: number; failed: number }) => void;
+  },
+) {
+  const fetcher = options?.fetcher || fetch;
+  const values = await fetchOrdexCollection(fetcher, slug);
+
+  const [existing] = await db
+    .select()
+    .from(collections)
+    .where(or(eq(collections.slug, values.slug), eq(collections.name, values.name)));
+
+  const [collection] = existing
+    ? [existing]
+    : await db.insert(collections).values(values).returning();
+  const totals = { imported: 0, failed: 0, pages: 0 };
+
+  let continuation: string | null = options?.continuation || '';
+
+  while (continuation !== null) {
+    // eslint-disable-next-line no-await-in-loop
+    const page = await fetchOrdexPage(fetcher, slug, continuation);
+    const result =
+      page.items.length > 0
+        ? // eslint-disable-next-line no-await-in-loop
+          await importCollectionManifest(db, collection, page.items, { rarity: false })
+        : { imported: 0, failed: 0 };
+
+    totals.imported += result.imported;
+    totals.failed += result.failed;
+    totals.pages += 1;
+    continuation = page.continuation;
+
+    options?.onPage?.({ continuation, imported: result.imported, failed: result.failed });
+  }
+
+  const [{ items }] = await db
+    .select({ items: count() })
+    .from(ethscriptions)
+    .where(eq(ethscriptions.collection_id, collection.id));
+
+  if (items > collection.supply) {
+    await db.update(collections).set({ supply: items }).where(eq(collections.id, collection.id));
+  }
+
+  await updateCollectionRarity(db, collection.id);
+
+  return { collection_id: collection.id, slug: collection.slug, created: !existing, ...totals };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test';
+
+import page from '@/utils/ordex-stuff/collection-resp-body.json';
+import { createOrdexFixtureFetcher, fetchOrdexPage } from './ordex.ts';
+import { computeRarity } from './rarity.ts';
+
+// items of the given trait values, in the order of `types`, the id being the position (oldest first)
+function createItems(types: string[], rows: (string | null)[][]) {
+  return rows.map((values, idx) => ({
+    id: String(idx),
+    attributes: values
+      .map((value, col) => ({ trait_type: types[col], value }))
+      .filter((attr): attr is { trait_type: string; value: string } => attr.value !== null),
+  }));
+}
+
+const getRanks = (items: ReturnType<typeof createItems>) =>
+  Object.fromEntries(computeRarity(items).map((x) => [x.id, x.rarity_rank]));
+
+const getAverage = (values: number[]) => values.reduce((sum, x) => sum + x, 0) / values.length;
+
+// the position of each value once sorted, 1 for the lowest
+function toRanks(values: number[]) {
+  const sorted = [...values].sort((x, y) => x - y);
+
+  return values.map((value) => sorted.indexOf(value) + 1);
+}
+
+// Spearman's rank correlation of two rankings of the same items, 1 when they are the same
+function getRankCorrelation(a: number[], b: number[]) {
+  const [ra, rb] = [toRanks(a), toRanks(b)];
+  const sum = ra.reduce((acc, value, idx) => acc + (value - rb[idx]) ** 2, 0);
+
+  return 1 - (6 * sum) / (a.length * (a.length ** 2 - 1));
+}
+
+describe('computeRarity', () => {
+  test('scores the sum of the inverse trait frequencies, and ranks the highest first', () => {
+    const items = createItems(
+      ['background', 'hat'],
+      [
+        ['red', 'cap'],
+        ['red', 'cap'],
+        ['red', 'crown'],
+        ['blue', 'crown'],
+        ['red', 'cap'],
+      ],
+    );
+    const rarity = computeRarity(items);
+
+    expect(rarity.map((x) => x.id)).toEqual(['3', '2', '0', '1', '4']);
+    expect(rarity[0]).toMatchObject({ id: '3', rarity_rank: 1 });
+    // 1/5 of the items are blue and 2/5 have a crown
+    expect(rarity[0].rarity_score).toBeCloseTo(5 + 2.5);
+    expect(rarity[0].statistical_rarity).toBeCloseTo(0.2 * 0.4);
+  });
+
+  test('breaks score ties by the statistical rarity, then the oldest first', () => {
+    // 3, 4 and 5 all score 9, but 3 has a common trait set, and 0, 1 and 2 are the same
+    const items = createItems(
+      ['x', 'y', 'z'],
+      [
+        ['a', 'a', 'a'],
+        ['a', 'a', 'a'],
+        ['a', 'a', 'a'],
+        ['a', 'a', 'b'],
+        ['b', 'b', 'c'],
+        ['b', 'b', 'c'],
+      ],
+    );
+
+    expect(computeRarity(items).map((x) => [x.id, x.rarity_score])).toEqual([
+      ['4', 9],
+      ['5', 9],
+      ['3', 9],
+      ['0', 5],
+      ['1', 5],
+      ['2', 5],
+    ]);
+  });
+
+  test('counts a missing trait as its own `None` value', () => {
+    // only 2 has no hat, the rarest value of it
+    const items = createItems(
+      ['background', 'hat'],
+      [
+        ['red', 'cap'],
+        ['red', 'cap'],
+        ['red', null],
+        ['blue', 'cap'],
+        ['blue', 'cap'],
+      ],
+    );
+
+    expect(getRanks(items)).toEqual({ 2: 1, 3: 2, 4: 3, 0: 4, 1: 5 });
+  });
+
+  test('ignores the precomputed rarity attributes', () => {
+    const items = createItems(
+      ['background', 'rarity', 'Rank'],
+      [
+        ['red', '1', '1'],
+        ['red', '2', '2'],
+        ['blue', '3', '3'],
+      ],
+    );
+    const withoutScores = items.map((item) => ({
+      ...item,
+      attributes: item.attributes.slice(0, 1),
+    }));
+
+    expect(computeRarity(items)).toEqual(computeRarity(withoutScores));
+  });
+
+  test('ranks the Ordex fixture in about the order of its own `rarity` attribute', async () => {
+    const { items } = await fetchOrdexPage(createOrdexFixtureFetcher({ pages: [page] }), 'mfpurrs');
+    const rarity = computeRarity(
+      items.map((item) => ({ id: item.id as string, attributes: item.attributes || [] })),
+    );
+    // the Ordex rank over the whole collection (1 is the rarest), of each item in our order
+    const ordex = rarity.map((x) => {
+      const item = items.find((y) => y.id === x.id);
+      const attr = item?.attributes?.find((y) => y.trait_type === 'rarity');
+
+      return Number(attr?.value);
+    });
+
+    expect(rarity).toHaveLength(page.items.length);
+    // only this page is scored, against the whole collection for Ordex, so the ranks differ,
+    // but the order mostly agrees, and the rarer half of the page is rarer on average for Ordex too
+    expect(
+      getRankCorrelation(
+        rarity.map((x) => x.rarity_rank),
+        ordex,
+      ),
+    ).toBeGreaterThan(0.6);
+    expect(getAverage(ordex.slice(0, 12))).toBeLessThan(getAverage(ordex.slice(12)));
+  });
+});
@@ -0,0 +1,87 @@
+import { asc, eq } from 'drizzle-orm';
+
+import { collectionItems, ethscriptions } from '@/db/schema/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+
+// Scores, not traits, some collections (like the Ordex ones) carry their precomputed rarity as an attribute
+const IGNORED_TRAITS = new Set(['rarity', 'rank', 'rarity_rank', 'rarity_score']);
+
+// An item without a trait type that others have gets the `None` value, so the missing trait counts too
+const MISSING_TRAIT = 'None';
+
+type RarityItem = { id: string; attributes: { trait_type: string; value: string | number }[] };
+
+function getItemTraits(item: RarityItem, types: string[]) {
+  const traits = new Map(
+    item.attributes
+      .filter((attr) => !IGNORED_TRAITS.has(attr.trait_type.toLowerCase()))
+      .map((attr) => [attr.trait_type, String(attr.value)]),
+  );
+
+  return types.map((type) => `${type}:${traits.get(type) ?? MISSING_TRAIT}`);
+}
+
+// The marketplace rarity of every item, from the trait frequencies (the share of items with the same value
+// of a trait type). `rarity_score` is the sum of the inverse frequencies (higher is rarer), `statistical_rarity`
+// is the product of the frequencies, the chance of an item with all the same traits (lower is rarer).
+// Ranked by the score, then by the statistical rarity, and the oldest first when they are still equal
+export function computeRarity(items: RarityItem[]) {
+  const types = [
+    ...new Set(
+      items.flatMap((item) =>
+        item.attributes
+          .map((attr) => attr.trait_type)
+          .filter((type) => !IGNORED_TRAITS.has(type.toLowerCase())),
+      ),
+    ),
+  ].sort();
+
+  const traits = items.map((item) => getItemTraits(item, types));
+  const counts = new Map<string, number>();
+
+  for (const trait of traits.flat()) {
+    counts.set(trait, (counts.get(trait) || 0) + 1);
+  }
+
+  const scored = items.map((item, idx) => {
+    const frequencies = traits[idx].map((trait) => (counts.get(trait) as number) / items.length);
+
+    return {
+      id: item.id,
+      rarity_score: frequencies.reduce((sum, freq) => sum + 1 / freq, 0),
+      statistical_rarity: frequencies.reduce((product, freq) => product * freq, 1),
+      idx,
+    };
+  });
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.rarity_score - a.rarity_score ||
+        a.statistical_rarity - b.statistical_rarity ||
+        a.idx - b.idx,
+    )
+    .map(({ idx: _, ...item }, rank) => ({ ...item, rarity_rank: rank + 1 }));
+}
+
+// Recomputes and stores the rarity of all the items of a collection, it's relative to the whole collection,
+// so it runs after every manifest import, and on demand with `bun run collections:rarity`
+export async function updateCollectionRarity(db: DbClient, collectionId: string) {
+  const items = await db
+    .select({ id: collectionItems.ethscription_id, attributes: collectionItems.attributes })
+    .from(collectionItems)
+    .innerJoin(ethscriptions, eq(collectionItems.ethscription_id, ethscriptions.id))
+    .where(eq(collectionItems.collection_id, collectionId))
+    .orderBy(asc(ethscriptions.block_number), asc(ethscriptions.transaction_index));
+
+  const rarity = computeRarity(items);
+
+  await db.transaction(async (tx) => {
+    for (const { id, ...item } of rarity) {
+      // eslint-disable-next-line no-await-in-loop
+      await tx.update(collectionItems).set(item).where(eq(collectionItems.ethscription_id, id));
+    }
+  });
+
+  return rarity.length;
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { eq, inArray, sql } from 'drizzle-orm';
+import { stringToHex } from 'viem';
+
+import { collections, ethscriptions, transfers } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from '@/indexer/constants.ts';
+import { createBlockSource, createFixtureTransport, runIndexer } from '@/indexer/index.ts';
+import { createFixtureBlock, createTestDatabase } from '@/indexer/testing.ts';
+import { getCollectionStats, getGini } from './stats.ts';
+
+const START = ESIP_5_START_BLOCK + 1000;
+const DAY = 86_400;
+const alice = `0x${'a'.repeat(40)}` as const;
+const bob = `0x${'b'.repeat(40)}` as const;
+const carol = `0x${'c'.repeat(40)}` as const;
+
+const create = (from: typeof alice, to: typeof alice, content: string) => ({
+  from,
+  to,
+  input: stringToHex(`data:,${content}`),
+});
+
+// the timestamp of a fixture block (see `createFixtureBlock`)
+const getTimestamp = (number: number) => 1_700_000_000 + number * 12;
+const getDay = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+const collection = { id: '', supply: 5 };
+
+// 4 of the 5 items are minted, `a`, `b` and `c` to alice and `d` to bob, then alice sends `a` and
+// `b` to carol, the second one a day later. `e` is not in the collection, its transfer does not count
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+
+  const first = createFixtureBlock(START, [
+    create(alice, alice, 'a'),
+    create(alice, alice, 'b'),
+    create(alice, alice, 'c'),
+    create(alice, bob, 'd'),
+    create(alice, alice, 'e'),
+  ]);
+  const [a, b, c, d, e] = first.transactions.map((tx) => tx.hash);
+  const blocks = [
+    first,
+    createFixtureBlock(START + 1, [
+      { from: alice, to: carol, input: a },
+      { from: alice, to: bob, input: e },
+    ]),
+    createFixtureBlock(START + 2, [{ from: alice, to: carol, input: b }]),
+  ];
+
+  await runIndexer({
+    db: ctx.db,
+    storage: ctx.storage,
+    source: createBlockSource(createFixtureTransport({ blocks })),
+    startBlock: START,
+  });
+
+  // fixture blocks are 12 seconds apart
+  await ctx.db
+    .update(transfers)
+    .set({ block_timestamp: sql`${transfers.block_timestamp} + ${DAY}` })
+    .where(eq(transfers.block_number, START + 2));
+
+  const [row] = await ctx.db
+    .insert(collections)
+    .values({ supply: collection.supply, slug: 'letters', name: 'Letters', description: '' })
+    .returning({ id: collections.id });
+
+  collection.id = row.id;
+
+  await ctx.db
+    .update(ethscriptions)
+    .set({ collection_id: collection.id })
+    .where(inArray(ethscriptions.id, [a, b, c, d]));
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+describe('getGini', () => {
+  test('is 0 for an equal distribution, and (n - 1) / n with a single holder', () => {
+    expect(getGini([])).toBe(0);
+    expect(getGini([3, 3, 3])).toBe(0);
+    expect(getGini([0, 0, 0, 4])).toBeCloseTo(0.75);
+    expect(getGini([2, 1, 1])).toBeCloseTo(1 / 6);
+  });
+});
+
+describe('getCollectionStats', () => {
+  test('gives the holders, their concentration and the mints of the collection items', async () => {
+    const stats = await getCollectionStats(ctx.db, collection, { bucket: 'day', top: 2 });
+
+    expect(stats).toMatchObject({
+      supply: 5,
+      items: 4,
+      minted_share: 80,
+      holders: 3,
+      top_holders: [
+        { address: carol, count: 2, share: 50 },
+        { address: alice, count: 1, share: 25 },
+      ],
+      concentration: { top10_share: 100 },
+      mints: {
+        first_block: START,
+        first_timestamp: getTimestamp(START),
+        last_block: START,
+        last_timestamp: getTimestamp(START),
+      },
+    });
+    expect(stats.concentration.gini).toBeCloseTo(1 / 6);
+  });
+
+  test('buckets the transfers of the collection items, without the creations', async () => {
+    const stats = await getCollectionStats(ctx.db, collection, { bucket: 'day', top: 10 });
+
+    expect(stats.volume).toEqual({
+      bucket: 'day',
+      transfers: 2,
+      buckets: [
+        {
+          bucket: getDay(getTimestamp(START + 1)),
+          transfers: 1,
+          items: 1,
+          first_block: START + 1,
+          last_block: START + 1,
+        },
+        {
+          bucket: getDay(getTimestamp(START + 2) + DAY),
+          transfers: 1,
+          items: 1,
+          first_block: START + 2,
+          last_block: START + 2,
+        },
+      ],
+    });
+  });
+});
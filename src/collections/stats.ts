@@ -0,0 +1,105 @@
+import { and, count, countDistinct, desc, eq, inArray, max, min, ne, sql } from 'drizzle-orm';
+
+import { ethscriptions, transfers } from '@/db/schema/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+
+export type StatsBucket = 'day' | 'week' | 'month';
+
+// `strftime` formats of the bucket keys, weeks are the ISO-like `2024-W05` (Monday based, `%W`)
+const BUCKET_FORMATS: Record<StatsBucket, string> = {
+  day: '%Y-%m-%d',
+  week: '%Y-W%W',
+  month: '%Y-%m',
+};
+
+// Gini coefficient of the holdings, 0 is an equal distribution and close to 1 is everything with a single holder
+export function getGini(counts: number[]) {
+  const sorted = [...counts].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, x) => sum + x, 0);
+
+  if (sorted.length === 0 || total === 0) {
+    return 0;
+  }
+
+  const weighted = sorted.reduce((sum, x, idx) => sum + (idx + 1) * x, 0);
+
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+}
+
+// Distribution metrics of a collection, from its current holders and the transfers of its items. There's no
+// marketplace data in the index, so nothing here depends on prices or floors
+export async function getCollectionStats(
+  db: DbClient,
+  collection: { id: string; supply: number },
+  options: { bucket: StatsBucket; top: number },
+) {
+  const inCollection = eq(ethscriptions.collection_id, collection.id);
+  const itemIds = db.select({ id: ethscriptions.id }).from(ethscriptions).where(inCollection);
+
+  const [minted] = await db
+    .select({
+      items: count(),
+      first_block: min(ethscriptions.block_number),
+      first_timestamp: min(ethscriptions.block_timestamp),
+      last_block: max(ethscriptions.block_number),
+      last_timestamp: max(ethscriptions.block_timestamp),
+    })
+    .from(ethscriptions)
+    .where(inCollection);
+
+  const holdings = await db
+    .select({ address: ethscriptions.current_owner, count: count() })
+    .from(ethscriptions)
+    .where(inCollection)
+    .groupBy(ethscriptions.current_owner)
+    .orderBy(desc(count()), ethscriptions.current_owner);
+
+  const share = (value: number) => (minted.items > 0 ? (value / minted.items) * 100 : 0);
+  const top = holdings.slice(0, options.top);
+  const top10 = holdings.slice(0, 10).reduce((sum, x) => sum + x.count, 0);
+
+  // creations are transfers too (from the creator to the initial owner), on the creation transaction
+  const bucket = sql<string>`strftime(${BUCKET_FORMATS[options.bucket]}, ${transfers.block_timestamp}, 'unixepoch')`;
+  const volume = await db
+    .select({
+      bucket,
+      transfers: count(),
+      items: countDistinct(transfers.ethscription_id),
+      first_block: min(transfers.block_number),
+      last_block: max(transfers.block_number),
+    })
+    .from(transfers)
+    .where(
+      and(
+        inArray(transfers.ethscription_id, itemIds),
+        ne(transfers.transaction_hash, transfers.ethscription_id),
+      ),
+    )
+    .groupBy(bucket)
+    .orderBy(bucket);
+
+  return {
+    collection_id: collection.id,
+    supply: collection.supply,
+    items: minted.items,
+    // the share of the supply linked to the collection, in percents
+    minted_share: collection.supply > 0 ? (minted.items / collection.supply) * 100 : 0,
+    holders: holdings.length,
+    top_holders: top.map((holder) => ({ ...holder, share: share(holder.count) })),
+    concentration: {
+      gini: getGini(holdings.map((x) => x.count)),
+      top10_share: share(top10),
+    },
+    mints: {
+      first_block: minted.first_block,
+      first_timestamp: minted.first_timestamp,
+      last_block: minted.last_block,
+      last_timestamp: minted.last_timestamp,
+    },
+    volume: {
+      bucket: options.bucket,
+      transfers: volume.reduce((sum, x) => sum + x.transfers, 0),
+      buckets: volume,
+    },
+  };
+}
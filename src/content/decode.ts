@@ -0,0 +1,57 @@
+import { decodeDataUriPayload, decompressDataUri, parseDataUri } from '@/eths-library/data-uri.ts';
+import type { ParsedDataUri } from '@/eths-library/types.ts';
+import { createDigest } from '@/eths-library/utils.ts';
+
+export type DecodedContent = {
+  bytes: Uint8Array;
+  content_type: string;
+  // whether the payload was gzipped (ESIP-7), `bytes` are always the decompressed ones
+  gzip: boolean;
+};
+
+function getParsedContentType(parsed: ParsedDataUri) {
+  const charset = parsed.parameters.find((param) => /^charset=/i.test(param));
+
+  return charset ? `${parsed.mimetype};${charset.toLowerCase()}` : parsed.mimetype;
+}
+
+// The media type and charset of a data URI, from its header only, so it works on truncated ones too
+export function getDataUriContentType(uri: string) {
+  const header = uri.slice(0, uri.indexOf(',') + 1);
+  const parsed = header ? parseDataUri(header) : null;
+
+  return parsed ? getParsedContentType(parsed) : null;
+}
+
+// Decodes the payload of a data URI into the actual content bytes. ESIP-7 payloads (`;gzip` parameter)
+// are decompressed first, then base64 payloads are decoded as such, the rest are percent-decoded (RFC 2397).
+// Invalid base64 is still a valid ethscription, there's just no content to decode, so it's `null` too
+export async function decodeDataUriContent(uri: string): Promise<DecodedContent | null> {
+  const canonical = await decompressDataUri(uri).catch(() => null);
+  const parsed = canonical ? parseDataUri(canonical) : null;
+  let bytes: Uint8Array | null = null;
+
+  try {
+    bytes = parsed && decodeDataUriPayload(parsed);
+  } catch {
+    bytes = null;
+  }
+
+  if (!parsed || !bytes) {
+    return null;
+  }
+
+  return {
+    bytes,
+    content_type: getParsedContentType(parsed),
+    gzip: canonical !== uri,
+  };
+}
+
+// The `content_sha` of an ethscription, 0x-prefixed SHA-256 of its data URI. For ESIP-7 gzipped ones
+// it's over the uncompressed (canonical) data URI, and `null` when the payload cannot be decompressed
+export async function getContentSha(uri: string) {
+  const canonical = await decompressDataUri(uri).catch(() => null);
+
+  return canonical === null ? null : `0x${await createDigest(canonical)}`;
+}
@@ -0,0 +1,3 @@
+export * from './decode.ts';
+export * from './response.ts';
+export * from './store.ts';
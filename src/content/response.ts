@@ -0,0 +1,62 @@
+export type ContentResponseOptions = {
+  bytes: Uint8Array;
+  content_type: string;
+  // SHA-256 of the content, used as a strong ETag since the content can never change
+  sha: string;
+};
+
+// Inscribed content and attachments are whatever their creators made them, like HTML or SVG with scripts,
+// and they are served from the app's origin, so they never run as a page of it nor get sniffed as another type
+export const untrustedContentHeaders = {
+  'content-security-policy': 'sandbox',
+  'x-content-type-options': 'nosniff',
+};
+
+// `If-None-Match` with the weak comparison (RFC 9110), a list of ETags, `W/` ones or `*`
+export function isNotModified(req: Request, etag: string) {
+  const ifNoneMatch = req.headers.get('if-none-match');
+  const tags = ifNoneMatch ? ifNoneMatch.split(',').map((x) => x.trim().replace(/^W\//, '')) : [];
+
+  return tags.some((x) => x === '*' || x === etag);
+}
+
+// Serves content forever-cacheable, with strong ETags and single byte ranges (RFC 9110),
+// multiple ranges are not supported and the whole content is served instead
+export function createContentResponse(req: Request, options: ContentResponseOptions) {
+  const { bytes, sha } = options;
+  const headers = new Headers({
+    'content-type': options.content_type,
+    'cache-control': 'public, max-age=31536000, immutable',
+    'accept-ranges': 'bytes',
+    etag: `"${sha}"`,
+    ...untrustedContentHeaders,
+  });
+
+  if (isNotModified(req, `"${sha}"`)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const ifRange = req.headers.get('if-range');
+  const range = ifRange && ifRange !== headers.get('etag') ? null : req.headers.get('range');
+  const match = range ? /^bytes=(\d*)-(\d*)$/.exec(range.trim()) : null;
+
+  if (!match || (!match[1] && !match[2])) {
+    headers.set('content-length', String(bytes.length));
+    return new Response(bytes, { headers });
+  }
+
+  // `bytes=-500` is the last 500 bytes, `bytes=500-` everything from the 500th byte
+  const start = match[1] ? Number(match[1]) : Math.max(bytes.length - Number(match[2]), 0);
+  const end =
+    match[1] && match[2] ? Math.min(Number(match[2]), bytes.length - 1) : bytes.length - 1;
+
+  if (start >= bytes.length || start > end) {
+    headers.set('content-range', `bytes */${bytes.length}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  headers.set('content-range', `bytes ${start}-${end}/${bytes.length}`);
+  headers.set('content-length', String(end - start + 1));
+
+  return new Response(bytes.subarray(start, end + 1), { status: 206, headers });
+}
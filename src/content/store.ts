@@ -0,0 +1,33 @@
+import type { StorageAdapter } from '@/storage/index.ts';
+import { decodeDataUriContent, getContentSha } from './decode.ts';
+
+// Content-addressed, so ESIP-6 duplicates share the same stored bytes
+export function getContentKey(sha: string) {
+  return `content/${sha}`;
+}
+
+export async function putContent(storage: StorageAdapter, sha: string, bytes: Uint8Array) {
+  const key = getContentKey(sha);
+
+  if (!(await storage.has(key))) {
+    await storage.put(key, bytes);
+  }
+}
+
+export async function getContent(storage: StorageAdapter, sha: string) {
+  return storage.get(getContentKey(sha));
+}
+
+// Decodes the data URI and stores its content, returns `false` when it cannot be decoded
+export async function storeDataUriContent(storage: StorageAdapter, uri: string) {
+  const content = await decodeDataUriContent(uri);
+  const sha = await getContentSha(uri);
+
+  if (!content || !sha) {
+    return false;
+  }
+
+  await putContent(storage, sha, content.bytes);
+
+  return true;
+}
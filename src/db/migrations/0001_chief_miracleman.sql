@@ -0,0 +1,8 @@
+CREATE TABLE `blocks` (
+	`block_number` integer PRIMARY KEY NOT NULL,
+	`block_blockhash` text NOT NULL,
+	`block_timestamp` integer NOT NULL,
+	`indexed_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `blocks_block_blockhash_unique` ON `blocks` (`block_blockhash`);
\ No newline at end of file
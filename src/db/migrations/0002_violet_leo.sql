@@ -0,0 +1 @@
+ALTER TABLE `blocks` ADD `parent_blockhash` text DEFAULT '' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `transfers` ADD `is_esip1` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `transfers` ADD `is_esip2` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `transfers` ADD `enforced_previous_owner` text;
\ No newline at end of file
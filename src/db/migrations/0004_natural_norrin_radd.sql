@@ -0,0 +1,2 @@
+ALTER TABLE `transfers` ADD `is_esip5` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `transfers` ADD `bulk_index` integer;
\ No newline at end of file
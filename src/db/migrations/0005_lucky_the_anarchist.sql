@@ -0,0 +1,2 @@
+CREATE INDEX `ethscriptions_content_sha_idx` ON `ethscriptions` (`content_sha`);--> statement-breakpoint
+CREATE UNIQUE INDEX `ethscriptions_content_sha_unique_idx` ON `ethscriptions` (`content_sha`) WHERE "ethscriptions"."is_esip6" = 0;
\ No newline at end of file
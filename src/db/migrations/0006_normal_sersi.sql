@@ -0,0 +1,10 @@
+CREATE TABLE `attachments` (
+	`ethscription_id` text PRIMARY KEY NOT NULL,
+	`attachment_sha` text NOT NULL,
+	`content_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`compressed_size` integer NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `attachments_attachment_sha_idx` ON `attachments` (`attachment_sha`);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX `ethscriptions_number_unique_idx` ON `ethscriptions` (`number`);
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE `protocol_erc20_ops` (
+	`ethscription_id` text PRIMARY KEY NOT NULL,
+	`block_number` integer NOT NULL,
+	`transaction_index` integer NOT NULL,
+	`creator` text NOT NULL,
+	`op` text NOT NULL,
+	`tick` text NOT NULL,
+	`max` text,
+	`lim` text,
+	`amt` text,
+	`data` text NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `protocol_erc20_ops_tick_idx` ON `protocol_erc20_ops` (`tick`,`op`);--> statement-breakpoint
+CREATE TABLE `protocol_facet_txs` (
+	`ethscription_id` text PRIMARY KEY NOT NULL,
+	`block_number` integer NOT NULL,
+	`transaction_index` integer NOT NULL,
+	`creator` text NOT NULL,
+	`op` text NOT NULL,
+	`to_address` text,
+	`function` text,
+	`args` text,
+	`data` text NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `protocol_profiles` (
+	`ethscription_id` text PRIMARY KEY NOT NULL,
+	`block_number` integer NOT NULL,
+	`transaction_index` integer NOT NULL,
+	`creator` text NOT NULL,
+	`name` text,
+	`bio` text,
+	`avatar` text,
+	`links` text DEFAULT '{}' NOT NULL,
+	`data` text NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,43 @@
+CREATE TABLE `token_balances` (
+	`tick` text NOT NULL,
+	`address` text NOT NULL,
+	`balance` integer NOT NULL,
+	PRIMARY KEY(`tick`, `address`),
+	FOREIGN KEY (`tick`) REFERENCES `tokens`(`tick`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `token_balances_balance_idx` ON `token_balances` (`tick`,`balance`);--> statement-breakpoint
+CREATE INDEX `token_balances_address_idx` ON `token_balances` (`address`);--> statement-breakpoint
+CREATE TABLE `token_transfers` (
+	`index` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tick` text NOT NULL,
+	`ethscription_id` text NOT NULL,
+	`op` text NOT NULL,
+	`from_address` text,
+	`to_address` text NOT NULL,
+	`amount` integer NOT NULL,
+	`block_number` integer NOT NULL,
+	`transaction_index` integer NOT NULL,
+	`event_log_index` integer,
+	FOREIGN KEY (`tick`) REFERENCES `tokens`(`tick`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `token_transfers_tick_idx` ON `token_transfers` (`tick`,`block_number`);--> statement-breakpoint
+CREATE INDEX `token_transfers_block_idx` ON `token_transfers` (`block_number`);--> statement-breakpoint
+CREATE TABLE `tokens` (
+	`tick` text PRIMARY KEY NOT NULL,
+	`ethscription_id` text NOT NULL,
+	`deployer` text NOT NULL,
+	`max_supply` integer NOT NULL,
+	`mint_limit` integer,
+	`minted` integer DEFAULT 0 NOT NULL,
+	`block_number` integer NOT NULL,
+	`block_timestamp` integer NOT NULL,
+	`transaction_index` integer NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `tokens_block_idx` ON `tokens` (`block_number`,`transaction_index`);--> statement-breakpoint
+ALTER TABLE `protocol_erc20_ops` ADD `is_valid` integer;--> statement-breakpoint
+ALTER TABLE `protocol_erc20_ops` ADD `settled_at_block` integer;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `names` (
+	`ethscription_id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`content_sha` text NOT NULL,
+	`creator` text NOT NULL,
+	`current_owner` text NOT NULL,
+	`block_number` integer NOT NULL,
+	`transaction_index` integer NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `names_name_unique_idx` ON `names` (`name`);--> statement-breakpoint
+CREATE INDEX `names_content_sha_idx` ON `names` (`content_sha`);--> statement-breakpoint
+CREATE INDEX `names_current_owner_idx` ON `names` (`current_owner`,`block_number`);--> statement-breakpoint
+ALTER TABLE `protocol_profiles` ADD `primary_name` text;
\ No newline at end of file
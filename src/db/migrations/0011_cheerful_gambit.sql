@@ -0,0 +1,11 @@
+ALTER TABLE `protocol_profiles` RENAME TO `profiles`;
+--> statement-breakpoint
+ALTER TABLE `profiles` RENAME COLUMN `name` TO `display_name`;
+--> statement-breakpoint
+ALTER TABLE `profiles` ADD `block_timestamp` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `profiles` SET `block_timestamp` = coalesce((SELECT `block_timestamp` FROM `ethscriptions` WHERE `ethscriptions`.`id` = `profiles`.`ethscription_id`), 0);
+--> statement-breakpoint
+UPDATE `profiles` SET `display_name` = (SELECT CASE WHEN json_type(`data`, `path`) IN ('text', 'integer', 'real') THEN nullif(trim(json_extract(`data`, `path`)), '') END FROM (SELECT CASE WHEN coalesce(json_type(`data`, '$.display_name'), 'null') != 'null' THEN '$.display_name' ELSE '$.name' END AS `path`));
+--> statement-breakpoint
+CREATE INDEX `profiles_creator_idx` ON `profiles` (`creator`,`block_number`);
@@ -0,0 +1,2 @@
+CREATE INDEX `transfers_ethscription_block_idx` ON `transfers` (`ethscription_id`,`block_number`);--> statement-breakpoint
+CREATE INDEX `transfers_to_address_block_idx` ON `transfers` (`to_address`,`block_number`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `collection_items` (
+	`ethscription_id` text PRIMARY KEY NOT NULL,
+	`collection_id` text NOT NULL,
+	`name` text,
+	`attributes` text DEFAULT '[]' NOT NULL,
+	FOREIGN KEY (`ethscription_id`) REFERENCES `ethscriptions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`collection_id`) REFERENCES `collections`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `collection_items_collection_idx` ON `collection_items` (`collection_id`);
\ No newline at end of file
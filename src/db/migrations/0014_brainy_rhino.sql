@@ -0,0 +1 @@
+ALTER TABLE `collection_items` ADD `description` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `collection_items` ADD `rarity_score` real;--> statement-breakpoint
+ALTER TABLE `collection_items` ADD `statistical_rarity` real;--> statement-breakpoint
+ALTER TABLE `collection_items` ADD `rarity_rank` integer;--> statement-breakpoint
+CREATE INDEX `collection_items_rarity_rank_idx` ON `collection_items` (`collection_id`,`rarity_rank`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE INDEX `collections_supply_idx` ON `collections` (`supply`);--> statement-breakpoint
+CREATE INDEX `collections_created_at_idx` ON `collections` (`created_at`);--> statement-breakpoint
+CREATE INDEX `ethscriptions_block_idx` ON `ethscriptions` (`block_number`,`transaction_index`);--> statement-breakpoint
+CREATE INDEX `ethscriptions_block_timestamp_idx` ON `ethscriptions` (`block_timestamp`);--> statement-breakpoint
+CREATE INDEX `tokens_minted_idx` ON `tokens` (`minted`);--> statement-breakpoint
+CREATE INDEX `votes_rank_idx` ON `votes` (`rank`,`voted_at`);--> statement-breakpoint
+CREATE INDEX `votes_voted_at_idx` ON `votes` (`voted_at`);
\ No newline at end of file
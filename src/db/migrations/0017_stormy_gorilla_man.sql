@@ -0,0 +1,2 @@
+ALTER TABLE `transactions` ALTER COLUMN "transaction_value" TO "transaction_value" text NOT NULL;--> statement-breakpoint
+UPDATE `transactions` SET `transaction_value` = CAST(`transaction_value` AS text);
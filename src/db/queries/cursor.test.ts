@@ -0,0 +1,85 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+
+import { decodeCursor, encodeCursor, getFiltersHash } from './cursor.ts';
+
+const cursor = { dir: 'next' as const, sort: '-block_number,id', filters: 'abc', keys: [100, 'x'] };
+const expected = { sort: cursor.sort, filters: cursor.filters, size: 2 };
+
+function getIssue(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(z.ZodError);
+
+    const [issue] = (err as z.ZodError).issues;
+    return { path: issue.path, message: issue.message };
+  }
+
+  throw new Error('Expected a validation error');
+}
+
+// a `page_key` of the given payload, signed like the real ones
+function sign(payload: Record<string, unknown>) {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const secret = process.env.CURSOR_SECRET || 'development-cursor-secret';
+
+  return `${encoded}.${createHmac('sha256', secret).update(encoded).digest('base64url')}`;
+}
+
+describe('cursor', () => {
+  test('decodes what it encodes', () => {
+    expect(decodeCursor(encodeCursor(cursor), expected)).toEqual({ v: 3, ...cursor });
+  });
+
+  test('rejects a tampered signature or payload', () => {
+    const [payload, signature] = encodeCursor(cursor).split('.');
+    const other = Buffer.from(JSON.stringify({ v: 3, ...cursor, keys: [1, 'x'] })).toString(
+      'base64url',
+    );
+
+    for (const token of [
+      `${payload}.${signature.slice(1)}`,
+      `${payload}.${'A'.repeat(signature.length)}`,
+      `${other}.${signature}`,
+      `${payload}.${signature}.extra`,
+      payload,
+      'nonsense',
+    ]) {
+      expect(getIssue(() => decodeCursor(token, expected))).toEqual({
+        path: ['page_key'],
+        message: 'Invalid page key, use the `page_key` or `prev_page_key` of a previous page',
+      });
+    }
+  });
+
+  test('rejects a cursor of another version', () => {
+    const token = sign({ v: 2, ...cursor });
+
+    expect(getIssue(() => decodeCursor(token, expected)).message).toMatch(/older version/);
+  });
+
+  test('rejects a cursor of another sort or other filters', () => {
+    const token = encodeCursor(cursor);
+
+    expect(getIssue(() => decodeCursor(token, { ...expected, sort: 'id' })).message).toMatch(
+      /another sort order/,
+    );
+    expect(getIssue(() => decodeCursor(token, { ...expected, size: 3 })).message).toMatch(
+      /another sort order/,
+    );
+    expect(getIssue(() => decodeCursor(token, { ...expected, filters: 'def' })).message).toMatch(
+      /other filters/,
+    );
+  });
+
+  test('hashes only the filters, not the pagination or the sort', () => {
+    const filters = { creator: '0xa20c', where: { number: { gt: 10 } } };
+
+    expect(getFiltersHash({ ...filters, page: 2, page_size: 5, sort: [], order: 'asc' })).toBe(
+      getFiltersHash(filters),
+    );
+    expect(getFiltersHash({ ...filters, creator: '0xd5f1' })).not.toBe(getFiltersHash(filters));
+  });
+});
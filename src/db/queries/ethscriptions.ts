@@ -0,0 +1,25 @@
+import { eq } from 'drizzle-orm';
+
+import { ethscriptions } from '../schema/index.ts';
+import type { ListOrder, ListSorts } from './list.ts';
+
+// The `:id` segment of the ethscription routes is either the ID (transaction hash) or the ethscription number
+export function whereIdOrNumber(value: string | number) {
+  const val = String(value).trim();
+
+  return /^\d+$/.test(val)
+    ? eq(ethscriptions.number, Number(val))
+    : eq(ethscriptions.id, val.toLowerCase());
+}
+
+// The creation order of the ethscription lists, and their tiebreaker after the fields of `?sort=`
+export const ethscriptionOrder: ListOrder = [
+  { key: 'block_number', column: ethscriptions.block_number },
+  { key: 'transaction_index', column: ethscriptions.transaction_index },
+];
+
+export const ethscriptionSorts: ListSorts = {
+  number: ethscriptions.number,
+  block_number: ethscriptions.block_number,
+  block_timestamp: ethscriptions.block_timestamp,
+};
@@ -0,0 +1,5 @@
+export * from './cursor.ts';
+export * from './ethscriptions.ts';
+export * from './list.ts';
+export * from './ownership.ts';
+export * from './tokens.ts';
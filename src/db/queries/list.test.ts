@@ -0,0 +1,264 @@
+import { createClient } from '@libsql/client';
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { drizzle } from 'drizzle-orm/libsql';
+import * as sq from 'drizzle-orm/sqlite-core';
+import { z } from 'zod';
+
+import { findList, type ListFields, type ListOrder, type ListSearchQuery } from './list.ts';
+
+const items = sq.sqliteTable('items', {
+  id: sq.integer().primaryKey(),
+  name: sq.text().notNull(),
+  owner: sq.text().notNull(),
+  rank: sq.integer(),
+});
+
+const fields: ListFields = {
+  name: { type: 'text', column: items.name },
+  owner: { type: 'text', column: items.owner, lowercase: true },
+  rank: { type: 'number', column: items.rank },
+};
+
+const order: ListOrder = [{ key: 'id', column: items.id }];
+
+const alice = `0x${'a'.repeat(40)}`;
+const bob = `0x${'b'.repeat(40)}`;
+
+const rows = [
+  { id: 1, name: 'cat', owner: alice, rank: 3 },
+  { id: 2, name: 'dog', owner: alice, rank: null },
+  { id: 3, name: 'cow', owner: bob, rank: 1 },
+  { id: 4, name: 'bat', owner: bob, rank: 2 },
+  { id: 5, name: 'cod', owner: bob, rank: null },
+];
+
+const client = createClient({ url: ':memory:' });
+const db: any = drizzle(client);
+
+beforeAll(async () => {
+  await client.execute(
+    'CREATE TABLE items (id integer PRIMARY KEY, name text NOT NULL, owner text NOT NULL, rank integer)',
+  );
+  await db.insert(items).values(rows);
+});
+
+afterAll(() => {
+  client.close();
+});
+
+async function list(searchQuery: Partial<ListSearchQuery>) {
+  return findList<typeof items.$inferSelect>(db, {
+    table: items,
+    query: db.select().from(items).$dynamic(),
+    fields,
+    order,
+    sorts: { rank: items.rank, name: items.name },
+    searchQuery: { page: 1, page_size: 100, order: 'asc', ...searchQuery },
+    searchParams: new URLSearchParams(),
+  });
+}
+
+async function ids(where: Record<string, any>) {
+  const result = await list({ where });
+
+  return result.data.map((x) => x.id);
+}
+
+describe('where', () => {
+  test('matches with every operator', async () => {
+    expect(await ids({ name: { eq: 'cat' } })).toEqual([1]);
+    expect(await ids({ rank: { gt: 1, lte: 3 } })).toEqual([1, 4]);
+    expect(await ids({ rank: { lt: 2 } })).toEqual([3]);
+    expect(await ids({ rank: { gte: 2 } })).toEqual([1, 4]);
+    expect(await ids({ name: { like: 'c*' } })).toEqual([1, 3, 5]);
+    expect(await ids({ name: { in: ['dog', 'bat'] } })).toEqual([2, 4]);
+    expect(await ids({ name: { nin: ['dog', 'bat'] } })).toEqual([1, 3, 5]);
+    expect(await ids({ rank: { is_null: true } })).toEqual([2, 5]);
+    expect(await ids({ rank: { is_null: false } })).toEqual([1, 3, 4]);
+  });
+
+  test('ANDs the fields, and combines the nested and/or/not groups', async () => {
+    expect(await ids({ owner: { eq: bob }, name: { like: 'c*' } })).toEqual([3, 5]);
+    expect(await ids({ or: [{ name: { eq: 'cat' } }, { rank: { eq: 1 } }] })).toEqual([1, 3]);
+    expect(await ids({ and: [{ owner: { eq: bob } }, { rank: { is_null: false } }] })).toEqual([
+      3, 4,
+    ]);
+    expect(await ids({ not: { owner: { eq: bob } } })).toEqual([1, 2]);
+    expect(
+      await ids({
+        owner: { eq: bob },
+        not: { or: [{ rank: { is_null: true } }, { name: { eq: 'cow' } }] },
+      }),
+    ).toEqual([4]);
+  });
+
+  test('lowercases the values of the lowercase fields', async () => {
+    expect(await ids({ owner: { eq: alice.toUpperCase() } })).toEqual([1, 2]);
+    expect(await ids({ owner: { in: [bob.toUpperCase()] } })).toEqual([3, 4, 5]);
+    expect(await ids({ owner: { nin: [bob.toUpperCase()] } })).toEqual([1, 2]);
+    expect(await ids({ owner: { like: '0xAAA*' } })).toEqual([1, 2]);
+    // and only of those
+    expect(await ids({ name: { eq: 'CAT' } })).toEqual([]);
+  });
+
+  test.each([
+    [{ unknown: { eq: 1 } }, ['where', 'unknown']],
+    [{ or: [{ unknown: { eq: 1 } }, { name: { eq: 'cat' } }] }, ['where', 'or', 0, 'unknown']],
+    [{ and: [{ name: { eq: 'cat' } }, { unknown: { eq: 1 } }] }, ['where', 'and', 1, 'unknown']],
+    [{ not: { unknown: { eq: 1 } } }, ['where', 'not', 'unknown']],
+  ])('rejects a field that is not filterable, wherever it is: %j', async (where, path) => {
+    const error = await list({ where }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(z.ZodError);
+    expect(error.issues).toEqual([expect.objectContaining({ path, message: 'Unknown field' })]);
+  });
+});
+
+describe('count', () => {
+  test('counts the filtered rows exactly by default', async () => {
+    const result = await list({ page_size: 2, where: { owner: { eq: bob } } });
+
+    expect(result.pagination).toMatchObject({
+      total: 3,
+      count: 'exact',
+      pages: 2,
+      next: 2,
+      has_more: true,
+    });
+  });
+
+  test('does not count with `none`, and still tells whether there is a next page', async () => {
+    const first = await list({ page_size: 2, count: 'none' });
+    const last = await list({ page: 3, page_size: 2, count: 'none' });
+
+    expect(first.pagination).toMatchObject({ total: null, count: 'none', pages: null, next: 2 });
+    expect(last.pagination).toMatchObject({
+      total: null,
+      pages: null,
+      next: null,
+      has_more: false,
+    });
+  });
+
+  test('estimates up to the limit, and it is exact under it', async () => {
+    const small = await list({ count: 'estimate', where: { rank: { is_null: true } } });
+
+    expect(small.pagination).toMatchObject({ total: 2, count: 'exact' });
+
+    await client.execute(
+      "INSERT INTO items (id, name, owner) WITH RECURSIVE seq(n) AS (SELECT 100 UNION ALL SELECT n + 1 FROM seq WHERE n < 10099) SELECT n, 'many', 'x' FROM seq",
+    );
+
+    try {
+      const many = await list({ page_size: 1, count: 'estimate' });
+      const exact = await list({ page_size: 1 });
+
+      expect(many.pagination).toMatchObject({ total: 10_000, count: 'estimate', pages: 10_000 });
+      expect(exact.pagination).toMatchObject({ total: 10_005, count: 'exact' });
+    } finally {
+      await client.execute('DELETE FROM items WHERE id >= 100');
+    }
+  });
+});
+
+// every page forward from the first, and back again with `prev_page_key`
+async function walk(searchQuery: Partial<ListSearchQuery>) {
+  const forward: number[][] = [];
+  const back: number[][] = [];
+  let result = await list({ ...searchQuery, page_size: 2 });
+
+  forward.push(result.data.map((x) => x.id));
+
+  while (result.pagination.page_key) {
+    // eslint-disable-next-line no-await-in-loop
+    result = await list({ ...searchQuery, page_size: 2, page_key: result.pagination.page_key });
+    forward.push(result.data.map((x) => x.id));
+  }
+
+  while (result.pagination.prev_page_key) {
+    // eslint-disable-next-line no-await-in-loop
+    result = await list({
+      ...searchQuery,
+      page_size: 2,
+      page_key: result.pagination.prev_page_key,
+    });
+    back.unshift(result.data.map((x) => x.id));
+  }
+
+  return { forward, back };
+}
+
+describe('cursor pagination', () => {
+  test('walks forward with `page_key` and back with `prev_page_key`', async () => {
+    const { forward, back } = await walk({});
+
+    expect(forward).toEqual([[1, 2], [3, 4], [5]]);
+    expect(back).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+  });
+
+  test('rejects a cursor of another filter', async () => {
+    const first = await list({ page_size: 2 });
+    const error = await list({
+      page_size: 2,
+      page_key: first.pagination.page_key as string,
+      where: { owner: { eq: bob } },
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(z.ZodError);
+  });
+});
+
+async function sorted(searchQuery: Partial<ListSearchQuery>) {
+  const result = await list(searchQuery);
+
+  return result.data.map((x) => x.id);
+}
+
+describe('sort', () => {
+  test('sorts by the default order, in the `order` direction', async () => {
+    expect(await sorted({})).toEqual([1, 2, 3, 4, 5]);
+    expect(await sorted({ order: 'desc' })).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  test('puts NULLs last in both directions, with the default order as the tiebreaker', async () => {
+    expect(await sorted({ sort: [{ key: 'rank', desc: false }] })).toEqual([3, 4, 1, 2, 5]);
+    expect(await sorted({ sort: [{ key: 'rank', desc: true }] })).toEqual([1, 4, 3, 2, 5]);
+    expect(await sorted({ sort: [{ key: 'rank', desc: true }], order: 'desc' })).toEqual([
+      1, 4, 3, 5, 2,
+    ]);
+  });
+
+  test('sorts by several fields, each in its own direction', async () => {
+    expect(
+      await sorted({
+        sort: [
+          { key: 'rank', desc: true },
+          { key: 'name', desc: false },
+        ],
+      }),
+    ).toEqual([1, 4, 3, 5, 2]);
+  });
+
+  test('walks the same rows with cursors, NULLs included', async () => {
+    const sort = [
+      { key: 'rank', desc: false },
+      { key: 'name', desc: true },
+    ];
+    const { forward, back } = await walk({ sort });
+
+    expect(forward).toEqual([[3, 4], [1, 2], [5]]);
+    expect(back).toEqual([
+      [3, 4],
+      [1, 2],
+    ]);
+  });
+
+  test('rejects a field that is not sortable', async () => {
+    await expect(list({ sort: [{ key: 'owner', desc: false }] })).rejects.toThrow(
+      'Unsupported sort field: owner',
+    );
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  lt,
+  lte,
+  not,
+  notInArray,
+  or,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { z } from 'zod';
+
+import type { DbClient } from '@/indexer/types.ts';
+import type { Operator } from '@/utils/validation.ts';
+import { decodeCursor, encodeCursor, getFiltersHash, type ListCursor } from './cursor.ts';
+
+// The only operators `where[field][op]=value` can use, the query string never picks an `orm` export by name.
+// `like` takes `*` wildcards, `in`/`nin` a list of values and `is_null` is `true` or `false`
+export const whereOperators: Record<Operator, (column: SQLiteColumn, value: any) => SQL> = {
+  eq,
+  gt,
+  lt,
+  gte,
+  lte,
+  like: (column, value) => like(column, String(value).replaceAll('*', '%')),
+  in: inArray,
+  nin: notInArray,
+  is_null: (column, value) => (value ? isNull(column) : isNotNull(column)),
+};
+
+// What a list route can be filtered by, the query parameter name to its column and how it's matched:
+// `text` is exact, or `like` with `*` wildcards, `number` takes the `gt:`/`lt:`/`gte:`/`lte:`/`range:` comparisons
+// (see `createComparisonSchema`) and `boolean` is exact. Only these fields can be used in `where` too
+export type ListField = {
+  type: 'text' | 'number' | 'boolean';
+  column: SQLiteColumn;
+  // for values that are always stored lowercase, like addresses, ticks and slugs
+  lowercase?: boolean;
+  // only for `where`, when the query parameter means something else and the route handles it
+  param?: false;
+};
+
+export type ListFields = Record<string, ListField>;
+
+// The sort keys, the name of the field in the results and its column, the last one must be unique
+// (or unique together with the ones before it), the cursors (`page_key`) carry their values of a row.
+// It's the default sort, and the tiebreaker after the fields of `?sort=`
+export type ListOrder = { key: string; column: SQLiteColumn }[];
+
+// What a list route can be sorted by with `?sort=-block_timestamp,number`, the allowlist of its
+// (indexed) columns, by the name of the field in the results. NULLs are always last, in both directions
+export type ListSorts = Record<string, SQLiteColumn>;
+
+type ListSortKey = { key: string; column: SQLiteColumn; isDescending: boolean };
+
+export type ListSearchQuery = {
+  page: number;
+  page_size: number;
+  page_key?: string;
+  order?: 'asc' | 'desc';
+  count?: 'exact' | 'estimate' | 'none';
+  sort?: { key: string; desc: boolean }[];
+  where?: Record<string, any>;
+  [key: string]: any;
+};
+
+function getFieldCondition(field: ListField, value: any): SQL[] {
+  if (field.type === 'text') {
+    const val = field.lowercase ? String(value).toLowerCase() : String(value);
+
+    return [
+      val.includes('*') ? like(field.column, val.replaceAll('*', '%')) : eq(field.column, val),
+    ];
+  }
+
+  // `gt:10` is `{ op, value }` and `range:1,5` is `{ op, min, max }`, a plain number is an exact match
+  if (field.type === 'number' && value?.op === 'range') {
+    return [gte(field.column, value.min), lte(field.column, value.max)];
+  }
+  if (field.type === 'number' && value?.op) {
+    return [whereOperators[value.op as Operator](field.column, value.value)];
+  }
+
+  return [eq(field.column, value)];
+}
+
+// The conditions of the filter query parameters that are present, from their validated values
+export function getFieldConditions(
+  fields: ListFields,
+  searchQuery: Record<string, any>,
+  searchParams: URLSearchParams,
+) {
+  return Object.entries(fields)
+    .filter(
+      ([key, field]) =>
+        field.param !== false && searchParams.has(key) && searchQuery[key] !== undefined,
+    )
+    .flatMap(([key, field]) => getFieldCondition(field, searchQuery[key]));
+}
+
+// The `where` values of a field that is always stored lowercase, lowercased like its query parameter
+function toFieldCase(field: ListField, value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => toFieldCase(field, item));
+  }
+
+  return field.lowercase && typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+function throwWhereIssue(path: (string | number)[], message: string): never {
+  throw new z.ZodError([{ code: 'custom', path: ['where', ...path], message }]);
+}
+
+// The condition of a validated `where` clause (see `WhereClause`), its fields and groups are AND-ed,
+// `and`/`or` combine their nested clauses and `not` negates its one. A field that is not in `fields` is
+// a validation error (so a 400), anywhere in the clause, as dropping it would widen or narrow the groups
+export function getWhereCondition(
+  fields: ListFields,
+  where: Record<string, any> = {},
+  path: (string | number)[] = [],
+): SQL | undefined {
+  const conditions = Object.entries(where).map(([key, spec]) => {
+    if (key === 'and' || key === 'or') {
+      const nested = (spec as Record<string, any>[]).map((clause, idx) =>
+        getWhereCondition(fields, clause, [...path, key, idx]),
+      );
+
+      return key === 'and' ? and(...nested) : or(...nested);
+    }
+
+    if (key === 'not') {
+      const nested = getWhereCondition(fields, spec, [...path, key]);
+
+      return nested && not(nested);
+    }
+
+    if (!Object.hasOwn(fields, key)) {
+      throwWhereIssue([...path, key], 'Unknown field');
+    }
+
+    return and(
+      ...Object.entries(spec as Record<string, unknown>).map(([op, value]) => {
+        if (!Object.hasOwn(whereOperators, op)) {
+          throw new Error(`Unsupported where operator: ${op}`);
+        }
+
+        return whereOperators[op as Operator](fields[key].column, toFieldCase(fields[key], value));
+      }),
+    );
+  });
+
+  return and(...conditions);
+}
+
+// `?count=estimate` counts up to this many rows, past it the `total` is this and the `count` is `estimate`
+const COUNT_ESTIMATE_LIMIT = 10_000;
+
+// The fields of `?sort=` in their own directions, then the rest of `order` in the `?order=` one (`desc` by default)
+function getSortKeys(order: ListOrder, sorts: ListSorts, searchQuery: ListSearchQuery) {
+  const isDescending = searchQuery.order !== 'asc';
+  const picked = (searchQuery.sort || []).map(({ key, desc: isDesc }) => {
+    if (!Object.hasOwn(sorts, key)) {
+      throw new Error(`Unsupported sort field: ${key}`);
+    }
+
+    return { key, column: sorts[key], isDescending: isDesc };
+  });
+  const tiebreaker = order
+    .filter((x) => !picked.some((y) => y.key === x.key))
+    .map((x) => ({ ...x, isDescending }));
+
+  return [...picked, ...tiebreaker] as ListSortKey[];
+}
+
+// Past the value of one sort key, NULLs are last (or first, when a previous page is read backwards)
+function getPastCondition(
+  column: SQLiteColumn,
+  value: unknown,
+  { isDescending, isNullsFirst }: { isDescending: boolean; isNullsFirst: boolean },
+) {
+  if (value === null) {
+    return isNullsFirst ? isNotNull(column) : sql`false`;
+  }
+
+  const past = isDescending ? lt(column, value) : gt(column, value);
+
+  return column.notNull || isNullsFirst ? past : or(past, isNull(column));
+}
+
+// Past the row of the cursor in the sort order, the keys can go in different directions so it's
+// equal on the keys before and past on the next one, for each of the keys
+function getCursorCondition(keys: ListSortKey[], values: ListCursor['keys'], isPrev: boolean) {
+  return or(
+    ...keys.map((key, idx) =>
+      and(
+        ...keys
+          .slice(0, idx)
+          .map((x, jdx) => (values[jdx] === null ? isNull(x.column) : eq(x.column, values[jdx]))),
+        getPastCondition(key.column, values[idx], {
+          isDescending: key.isDescending !== isPrev,
+          isNullsFirst: isPrev,
+        }),
+      ),
+    ),
+  );
+}
+
+function getOrderBy(key: ListSortKey, isPrev: boolean) {
+  const isDescending = key.isDescending !== isPrev;
+
+  if (key.column.notNull) {
+    return isDescending ? desc(key.column) : asc(key.column);
+  }
+
+  return sql`${key.column} ${sql.raw(isDescending ? 'desc' : 'asc')} nulls ${sql.raw(isPrev ? 'first' : 'last')}`;
+}
+
+// The `total` of the filtered rows and how it was counted, `null` with `?count=none`
+async function countList(
+  db: DbClient,
+  from: { table: SQLiteTable; join?: (query: any) => any },
+  where: SQL | undefined,
+  mode: ListSearchQuery['count'] = 'exact',
+) {
+  const select = (columns: Record<string, SQL>) => {
+    const query = db.select(columns).from(from.table).$dynamic();
+
+    return from.join ? from.join(query) : query;
+  };
+
+  if (mode === 'none') {
+    return { total: null, count: mode };
+  }
+
+  if (mode === 'estimate') {
+    const limited = select({ one: sql`1` })
+      .where(where)
+      .limit(COUNT_ESTIMATE_LIMIT)
+      .as('limited');
+    const [{ total }] = await db.select({ total: count() }).from(limited);
+
+    return { total, count: total < COUNT_ESTIMATE_LIMIT ? 'exact' : mode };
+  }
+
+  const [{ total }] = await select({ total: count() }).where(where);
+
+  return { total, count: mode };
+}
+
+// The shared list query of the routes: filters (the query parameters of `fields`, the `where` clause and the
+// route's own `conditions`, all AND-ed), sorting by `?sort=` (of `sorts`) and `order` (descending unless
+// `?order=asc`), and either page or cursor (`page_key`, and `prev_page_key` back) pagination, with the same
+// `pagination` object everywhere, its `total` counted as `?count=` asks.
+// `query` is the route's select, with its columns and joins, made `$dynamic()`, `table` is what's counted, along
+// with `join`, the joins of `query` that the conditions need. The filters are returned too, as `where`, for
+// aggregates over the same rows
+export async function findList<T extends Record<string, any>>(
+  db: DbClient,
+  options: {
+    table: SQLiteTable;
+    join?: (query: any) => any;
+    query: any;
+    fields: ListFields;
+    order: ListOrder;
+    sorts?: ListSorts;
+    searchQuery: ListSearchQuery;
+    searchParams: URLSearchParams;
+    conditions?: (SQL | undefined)[];
+  },
+) {
+  const { searchQuery } = options;
+  const keys = getSortKeys(options.order, options.sorts || {}, searchQuery);
+  const sort = keys.map((x) => (x.isDescending ? `-${x.key}` : x.key)).join(',');
+  const filters = getFiltersHash(searchQuery);
+  const cursor = searchQuery.page_key
+    ? decodeCursor(searchQuery.page_key, { sort, filters, size: keys.length })
+    : null;
+  const offset = cursor ? 0 : (searchQuery.page - 1) * searchQuery.page_size;
+
+  // a previous page is read backwards from its cursor, and flipped back
+  const isPrev = cursor?.dir === 'prev';
+
+  const conditions = [
+    ...getFieldConditions(options.fields, searchQuery, options.searchParams),
+    getWhereCondition(options.fields, searchQuery.where),
+    ...(options.conditions || []),
+  ];
+
+  const where = and(...conditions);
+  const counted = await countList(db, options, where, searchQuery.count);
+
+  if (cursor) {
+    conditions.push(getCursorCondition(keys, cursor.keys, isPrev));
+  }
+
+  // one more row than the page tells whether there's another one, without the `total`
+  const rows: T[] = await options.query
+    .where(and(...conditions))
+    .orderBy(...keys.map((x) => getOrderBy(x, isPrev)))
+    .limit(searchQuery.page_size + 1)
+    .offset(offset);
+
+  const page = rows.slice(0, searchQuery.page_size);
+  const results = isPrev ? page.reverse() : page;
+  const hasExtra = rows.length > searchQuery.page_size;
+
+  // coming back from a next page, the row of the cursor is still after this one
+  const has_more = isPrev ? results.length > 0 : hasExtra;
+  const has_prev = isPrev ? hasExtra : Boolean(cursor) || offset > 0;
+
+  const toCursor = (row: T | undefined, dir: ListCursor['dir']) =>
+    row ? encodeCursor({ dir, sort, filters, keys: keys.map((x) => row[x.key]) }) : null;
+  const nextCursor = has_more ? toCursor(results.at(-1), 'next') : null;
+  const prevCursor = has_prev ? toCursor(results[0], 'prev') : null;
+
+  return {
+    data: results,
+    where,
+    pagination: cursor
+      ? {
+          total: counted.total,
+          count: counted.count,
+          page_size: searchQuery.page_size,
+          page_key: nextCursor,
+          prev_page_key: prevCursor,
+          has_more,
+        }
+      : {
+          total: counted.total,
+          count: counted.count,
+          pages: counted.total === null ? null : Math.ceil(counted.total / searchQuery.page_size),
+          page: searchQuery.page,
+          prev: searchQuery.page > 1 ? searchQuery.page - 1 : null,
+          next: has_more ? searchQuery.page + 1 : null,
+          page_size: searchQuery.page_size,
+          page_key: nextCursor,
+          prev_page_key: prevCursor,
+          has_more,
+        },
+  };
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { eq, inArray, sql } from 'drizzle-orm';
+import { stringToHex } from 'viem';
+
+import { ethscriptions, transfers } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from '@/indexer/constants.ts';
+import { createBlockSource, createFixtureTransport, runIndexer } from '@/indexer/index.ts';
+import { createFixtureBlock, createTestDatabase } from '@/indexer/testing.ts';
+import {
+  getOwnedIdsAt,
+  getOwnersAt,
+  getOwnershipPeriods,
+  TRANSFERS_ORDER_ASC,
+} from './ownership.ts';
+
+const START = ESIP_5_START_BLOCK + 1000;
+const alice = `0x${'a'.repeat(40)}` as const;
+const bob = `0x${'b'.repeat(40)}` as const;
+const carol = `0x${'c'.repeat(40)}` as const;
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+let a: `0x${string}`;
+let b: `0x${string}`;
+
+// alice creates `a` and `b`, `a` goes to bob then to carol within the same block, and `b` to bob later on
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+
+  const first = createFixtureBlock(START, [
+    { from: alice, to: alice, input: stringToHex('data:,a') },
+    { from: alice, to: alice, input: stringToHex('data:,b') },
+  ]);
+
+  [a, b] = first.transactions.map((tx) => tx.hash);
+
+  const blocks = [
+    first,
+    createFixtureBlock(START + 1, [
+      { from: alice, to: bob, input: a },
+      { from: bob, to: carol, input: a },
+    ]),
+    createFixtureBlock(START + 2, [{ from: alice, to: bob, input: b }]),
+  ];
+
+  await runIndexer({
+    db: ctx.db,
+    storage: ctx.storage,
+    source: createBlockSource(createFixtureTransport({ blocks })),
+    startBlock: START,
+  });
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+async function getOwners(atBlock: number) {
+  const ids = sql`SELECT ${ethscriptions.id} FROM ${ethscriptions}`;
+  const rows = await ctx.db.all<{ ethscription_id: string; owner: string }>(
+    sql`${getOwnersAt(atBlock, ids)} ORDER BY latest.ethscription_id`,
+  );
+
+  return Object.fromEntries(rows.map((x) => [x.ethscription_id, x.owner]));
+}
+
+async function getOwnedIds(address: string, atBlock: number) {
+  const rows = await ctx.db
+    .select({ id: ethscriptions.id })
+    .from(ethscriptions)
+    .where(inArray(ethscriptions.id, getOwnedIdsAt(address, atBlock)));
+
+  return rows.map((x) => x.id).sort();
+}
+
+describe('ownership at a block', () => {
+  test('gives the owner at the end of the block, from the last transfer up to it', async () => {
+    expect(await getOwners(START - 1)).toEqual({});
+    expect(await getOwners(START)).toEqual({ [a]: alice, [b]: alice });
+    expect(await getOwners(START + 1)).toEqual({ [a]: carol, [b]: alice });
+    expect(await getOwners(START + 2)).toEqual({ [a]: carol, [b]: bob });
+  });
+
+  test('gives the ids an address owns at the end of the block', async () => {
+    expect(await getOwnedIds(alice, START)).toEqual([a, b].sort());
+    expect(await getOwnedIds(alice, START + 1)).toEqual([b]);
+    // bob had `a` only in the middle of the block
+    expect(await getOwnedIds(bob, START + 1)).toEqual([]);
+    expect(await getOwnedIds(bob, START + 2)).toEqual([b]);
+    expect(await getOwnedIds(carol, START)).toEqual([]);
+  });
+
+  test('splits the history in periods, each until the next transfer', async () => {
+    const history = await ctx.db
+      .select()
+      .from(transfers)
+      .where(eq(transfers.ethscription_id, a))
+      .orderBy(...TRANSFERS_ORDER_ASC);
+
+    expect(getOwnershipPeriods(history)).toEqual([
+      expect.objectContaining({ owner: alice, from_block: START, to_block: START + 1 }),
+      expect.objectContaining({ owner: bob, from_block: START + 1, to_block: START + 1 }),
+      expect.objectContaining({ owner: carol, from_block: START + 1, to_block: null }),
+    ]);
+  });
+});
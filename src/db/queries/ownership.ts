@@ -0,0 +1,45 @@
+import { and, asc, eq, lte, sql, type SQL } from 'drizzle-orm';
+
+import { TRANSFERS_ORDER_DESC } from '@/indexer/ownership.ts';
+import { transfers } from '../schema/index.ts';
+
+// Oldest first, the reverse of the order the indexer uses for the latest transfer (see `TRANSFERS_ORDER_DESC`)
+export const TRANSFERS_ORDER_ASC = [
+  asc(transfers.block_number),
+  asc(transfers.transaction_index),
+  asc(transfers.event_log_index),
+  asc(transfers.bulk_index),
+  asc(transfers.index),
+];
+
+// The owner of each of the given ethscriptions (`ids` is a subquery) at the end of `atBlock`, from their latest
+// transfer up to then, as `(ethscription_id, owner)` rows. The ones created after that block are not in it
+export function getOwnersAt(atBlock: number, ids: SQL) {
+  return sql`SELECT latest.ethscription_id, latest.owner FROM (SELECT ${transfers.ethscription_id} AS ethscription_id, ${transfers.to_address} AS owner, ROW_NUMBER() OVER (PARTITION BY ${transfers.ethscription_id} ORDER BY ${TRANSFERS_ORDER_DESC}) AS rn FROM ${transfers} WHERE ${lte(transfers.block_number, atBlock)} AND ${transfers.ethscription_id} IN (${ids})) AS latest WHERE latest.rn = 1`;
+}
+
+// The ids of the ethscriptions owned by `address` at the end of `atBlock`, as a subquery for `inArray`.
+// Only the ethscriptions it ever received up to that block are checked
+export function getOwnedIdsAt(address: string, atBlock: number) {
+  const received = sql`SELECT ${transfers.ethscription_id} FROM ${transfers} WHERE ${and(
+    eq(transfers.to_address, address),
+    lte(transfers.block_number, atBlock),
+  )}`;
+
+  return sql`(SELECT owners.ethscription_id FROM (${getOwnersAt(atBlock, received)}) AS owners WHERE owners.owner = ${address})`;
+}
+
+// The ownership history of an ethscription from its transfers (oldest first). Each transfer starts a period
+// that lasts until the next one, `to_block` is the block of the next transfer and `null` for the current owner
+export function getOwnershipPeriods(history: (typeof transfers.$inferSelect)[]) {
+  return history.map((transfer, idx) => ({
+    owner: transfer.to_address,
+    previous_owner: transfer.from_address,
+    from_block: transfer.block_number,
+    to_block: history[idx + 1]?.block_number ?? null,
+    block_timestamp: transfer.block_timestamp,
+    transaction_hash: transfer.transaction_hash,
+    transaction_index: transfer.transaction_index,
+    event_log_index: transfer.event_log_index,
+  }));
+}
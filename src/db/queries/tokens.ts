@@ -0,0 +1,20 @@
+import { sql } from 'drizzle-orm';
+
+import { tokenBalances, tokens } from '../schema/index.ts';
+
+// The columns of the token routes, `holders` is counted from the balances, only holders have one
+export const tokenColumns = {
+  tick: tokens.tick,
+  ethscription_id: tokens.ethscription_id,
+  deployer: tokens.deployer,
+  max_supply: tokens.max_supply,
+  mint_limit: tokens.mint_limit,
+  minted: tokens.minted,
+  holders:
+    sql<number>`(SELECT COUNT(*) FROM ${tokenBalances} WHERE ${tokenBalances.tick} = ${tokens.tick})`.mapWith(
+      Number,
+    ),
+  block_number: tokens.block_number,
+  block_timestamp: tokens.block_timestamp,
+  transaction_index: tokens.transaction_index,
+};
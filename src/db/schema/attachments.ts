@@ -0,0 +1,35 @@
+import { relations } from 'drizzle-orm';
+import * as sq from 'drizzle-orm/sqlite-core';
+
+// eslint-disable-next-line import/no-cycle
+import { ethscriptions } from './index.ts';
+
+// ESIP-8 attachments (blobscriptions), the metadata only, the bytes themselves are gzipped
+// and kept in the storage (see `src/storage`) under `attachments/{attachment_sha}`
+export const attachments = sq.sqliteTable(
+  'attachments',
+  {
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .primaryKey()
+      .references(() => ethscriptions.id),
+
+    // SHA-256 of the (uncompressed) attachment content
+    attachment_sha: sq.text().notNull(),
+    content_type: sq.text().notNull(),
+
+    size: sq.integer().notNull(),
+    compressed_size: sq.integer().notNull(),
+  },
+  (t) => ({
+    attachmentShaIdx: sq.index('attachments_attachment_sha_idx').on(t.attachment_sha),
+  }),
+);
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  ethscription: one(ethscriptions, {
+    fields: [attachments.ethscription_id],
+    references: [ethscriptions.id],
+  }),
+}));
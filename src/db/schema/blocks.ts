@@ -0,0 +1,16 @@
+import { sql } from 'drizzle-orm';
+import * as sq from 'drizzle-orm/sqlite-core';
+
+// Every block the indexer went through, even the ones without any ethscriptions activity,
+// so that indexing can be resumed from the last one, and chain continuity can be verified
+export const blocks = sq.sqliteTable('blocks', {
+  block_number: sq.integer().notNull().primaryKey(),
+  block_blockhash: sq.text().notNull().unique(),
+  parent_blockhash: sq.text().notNull().default(''),
+  block_timestamp: sq.integer().notNull(),
+
+  indexed_at: sq
+    .integer()
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
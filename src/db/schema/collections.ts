@@ -4,31 +4,76 @@ import * as sq from 'drizzle-orm/sqlite-core';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
 
+// eslint-disable-next-line import/no-cycle
+import { ethscriptions } from './index.ts';
+
 const createCuidV2 = initCuidV2({ length: 32, fingerprint: crypto.randomUUID() });
 
-export const collections = sq.sqliteTable('collections', {
-  id: sq.text().notNull().primaryKey().$defaultFn(createCuidV2),
-  supply: sq.integer().notNull(),
-  slug: sq.text().notNull().unique(),
-  name: sq.text().notNull().unique(),
-  description: sq.text().notNull(),
-  logo: sq.text().notNull().default('https://example.com/logo.png'),
-  banner: sq.text().notNull().default('https://example.com/banner.png'),
-  links: sq.text({ mode: 'json' }).notNull().$type<`https://${string}`[]>().default([]),
-  team: sq.text({ mode: 'json' }).notNull().$type<(`0x${string}` | string)[]>().default([]),
-  royalties: sq
-    .text({ mode: 'json' })
-    .notNull()
-    .$type<{ [key: `0x${string}`]: number }>()
-    .default({}),
-  verified: sq.integer({ mode: 'boolean' }).notNull().default(false),
+export const collections = sq.sqliteTable(
+  'collections',
+  {
+    id: sq.text().notNull().primaryKey().$defaultFn(createCuidV2),
+    supply: sq.integer().notNull(),
+    slug: sq.text().notNull().unique(),
+    name: sq.text().notNull().unique(),
+    description: sq.text().notNull(),
+    logo: sq.text().notNull().default('https://example.com/logo.png'),
+    banner: sq.text().notNull().default('https://example.com/banner.png'),
+    links: sq.text({ mode: 'json' }).notNull().$type<`https://${string}`[]>().default([]),
+    team: sq.text({ mode: 'json' }).notNull().$type<(`0x${string}` | string)[]>().default([]),
+    royalties: sq
+      .text({ mode: 'json' })
+      .notNull()
+      .$type<{ [key: `0x${string}`]: number }>()
+      .default({}),
+    verified: sq.integer({ mode: 'boolean' }).notNull().default(false),
 
-  // NOTE: replace with sql`DEFAULT (cast((julianday('now') - 2440587.5)*86400000 as integer))`
-  created_at: sq
-    .integer()
-    .notNull()
-    .default(sql`(unixepoch())`),
-});
+    // NOTE: replace with sql`DEFAULT (cast((julianday('now') - 2440587.5)*86400000 as integer))`
+    created_at: sq
+      .integer()
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => ({
+    // for `?sort=` of the list
+    supplyIdx: sq.index('collections_supply_idx').on(t.supply),
+    createdAtIdx: sq.index('collections_created_at_idx').on(t.created_at),
+  }),
+);
+
+// The items of a collection, as listed in its manifest, with their per-item name, description and attributes.
+// The membership itself is `ethscriptions.collection_id`, both are written together on import
+export const collectionItems = sq.sqliteTable(
+  'collection_items',
+  {
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .primaryKey()
+      .references(() => ethscriptions.id),
+    collection_id: sq
+      .text()
+      .notNull()
+      .references(() => collections.id),
+
+    name: sq.text(),
+    description: sq.text(),
+    attributes: sq
+      .text({ mode: 'json' })
+      .notNull()
+      .$type<{ trait_type: string; value: string | number }[]>()
+      .default([]),
+
+    // see `computeRarity`, `null` until it's computed
+    rarity_score: sq.real(),
+    statistical_rarity: sq.real(),
+    rarity_rank: sq.integer(),
+  },
+  (t) => ({
+    collectionIdx: sq.index('collection_items_collection_idx').on(t.collection_id),
+    rarityRankIdx: sq.index('collection_items_rarity_rank_idx').on(t.collection_id, t.rarity_rank),
+  }),
+);
 
 export const selectCollectionSchema = createSelectSchema(collections);
 export const insertCollectionSchema = createInsertSchema(collections, {
@@ -55,8 +100,55 @@ export const insertCollectionSchema = createInsertSchema(collections, {
     .default({}),
   verified: z.boolean().default(false),
 });
+// ESIP collection manifest, the items by ethscription ID or content SHA, with their name, description and attributes.
+// Accepts both the `collection_items` / `item_attributes` naming of the common collection JSON and the short one
+const manifestItemSchema = z
+  .object({
+    ethscription_id: z
+      .string()
+      .regex(/^0x[\dA-Fa-f]{64}$/)
+      .optional(),
+    id: z
+      .string()
+      .regex(/^0x[\dA-Fa-f]{64}$/)
+      .optional(),
+    sha: z
+      .string()
+      .regex(/^(0x)?[\dA-Fa-f]{64}$/)
+      .optional(),
+    name: z.string().max(200).optional(),
+    description: z.string().max(1000).optional(),
+    attributes: z
+      .array(z.object({ trait_type: z.string().min(1), value: z.union([z.string(), z.number()]) }))
+      .optional(),
+    item_attributes: z
+      .array(z.object({ trait_type: z.string().min(1), value: z.union([z.string(), z.number()]) }))
+      .optional(),
+  })
+  .transform((item) => ({
+    id: (item.ethscription_id || item.id)?.toLowerCase() || null,
+    sha: item.sha ? `0x${item.sha.toLowerCase().replace(/^0x/, '')}` : null,
+    name: item.name ?? null,
+    description: item.description ?? null,
+    attributes: item.attributes || item.item_attributes || [],
+  }))
+  .refine((item) => item.id || item.sha, {
+    message: 'Either `ethscription_id` or `sha` is required',
+  });
+
+export const collectionManifestSchema = z
+  .object({
+    items: z.array(manifestItemSchema).optional(),
+    collection_items: z.array(manifestItemSchema).optional(),
+  })
+  .transform((manifest) => manifest.items || manifest.collection_items || [])
+  .refine((items) => items.length > 0 && items.length <= 10_000, {
+    message: 'The manifest must list between 1 and 10000 items',
+  });
+
 export type CollectionSelectType = z.infer<typeof selectCollectionSchema>;
 export type CollectionInsertType = z.infer<typeof insertCollectionSchema>;
+export type CollectionManifestItem = z.infer<typeof collectionManifestSchema>[number];
 
 // export const collectionsRelations = relations(collections, ({ one, many }) => ({
 //   metadata: one(transactions, {
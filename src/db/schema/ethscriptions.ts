@@ -2,46 +2,62 @@ import { relations, sql } from 'drizzle-orm';
 import * as sq from 'drizzle-orm/sqlite-core';
 
 // eslint-disable-next-line import/no-cycle
-import { collections, transactions, transfers, votes } from './index.ts';
+import { attachments, collections, transactions, transfers, votes } from './index.ts';
 
 // import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 // import { z } from 'zod';
 
-export const ethscriptions = sq.sqliteTable('ethscriptions', {
-  id: sq
-    .text()
-    .notNull()
-    .primaryKey()
-    .references(() => transactions.transaction_hash),
-  number: sq.integer(), // Ethscription number in sequence
-
-  block_number: sq.integer().notNull(),
-  block_timestamp: sq.integer().notNull(),
-  transaction_index: sq.integer().notNull(),
-
-  media_type: sq.text().notNull(),
-  media_subtype: sq.text().notNull(),
-  content_type: sq.text().notNull(),
-  content_sha: sq.text().notNull(),
-
-  is_esip0: sq.integer({ mode: 'boolean' }).notNull(),
-  is_esip3: sq.integer({ mode: 'boolean' }).notNull(),
-  is_esip4: sq.integer({ mode: 'boolean' }).notNull(),
-  is_esip6: sq.integer({ mode: 'boolean' }).notNull(),
-  is_esip8: sq.integer({ mode: 'boolean' }).notNull(),
-
-  creator: sq.text().notNull(),
-  initial_owner: sq.text().notNull(),
-  current_owner: sq.text().notNull(),
-  previous_owner: sq.text().notNull(),
-
-  updated_at: sq
-    .integer()
-    .notNull()
-    .default(sql`(unixepoch())`),
-
-  collection_id: sq.text().references(() => collections.id),
-});
+export const ethscriptions = sq.sqliteTable(
+  'ethscriptions',
+  {
+    id: sq
+      .text()
+      .notNull()
+      .primaryKey()
+      .references(() => transactions.transaction_hash),
+    number: sq.integer(), // Ethscription number in sequence, assigned by the indexer (see `numberEthscriptions`)
+
+    block_number: sq.integer().notNull(),
+    block_timestamp: sq.integer().notNull(),
+    transaction_index: sq.integer().notNull(),
+
+    media_type: sq.text().notNull(),
+    media_subtype: sq.text().notNull(),
+    content_type: sq.text().notNull(),
+    content_sha: sq.text().notNull(),
+
+    is_esip0: sq.integer({ mode: 'boolean' }).notNull(),
+    is_esip3: sq.integer({ mode: 'boolean' }).notNull(),
+    is_esip4: sq.integer({ mode: 'boolean' }).notNull(),
+    is_esip6: sq.integer({ mode: 'boolean' }).notNull(),
+    is_esip8: sq.integer({ mode: 'boolean' }).notNull(),
+
+    creator: sq.text().notNull(),
+    initial_owner: sq.text().notNull(),
+    current_owner: sq.text().notNull(),
+    previous_owner: sq.text().notNull(),
+
+    updated_at: sq
+      .integer()
+      .notNull()
+      .default(sql`(unixepoch())`),
+
+    collection_id: sq.text().references(() => collections.id),
+  },
+  (t) => ({
+    numberUniqueIdx: sq.uniqueIndex('ethscriptions_number_unique_idx').on(t.number),
+    contentShaIdx: sq.index('ethscriptions_content_sha_idx').on(t.content_sha),
+    // the default sort of the list, and the ones of `?sort=`
+    blockIdx: sq.index('ethscriptions_block_idx').on(t.block_number, t.transaction_index),
+    blockTimestampIdx: sq.index('ethscriptions_block_timestamp_idx').on(t.block_timestamp),
+    // ESIP-6: the same content can be ethscribed again only as an explicit duplicate (`rule=esip6`),
+    // so there is at most one non-ESIP-6 ethscription for every `content_sha`
+    contentShaUniqueIdx: sq
+      .uniqueIndex('ethscriptions_content_sha_unique_idx')
+      .on(t.content_sha)
+      .where(sql`${t.is_esip6} = 0`),
+  }),
+);
 
 // export const selectEthscriptionSchema = createSelectSchema(ethscriptions);
 // export const insertEthscriptionSchema = createInsertSchema(ethscriptions);
@@ -57,6 +73,10 @@ export const ethscriptionsRelations = relations(ethscriptions, ({ one, many }) =
     fields: [ethscriptions.collection_id],
     references: [collections.id],
   }),
+  attachment: one(attachments, {
+    fields: [ethscriptions.id],
+    references: [attachments.ethscription_id],
+  }),
   transfers: many(transfers),
   votes: many(votes),
 }));
@@ -1,7 +1,13 @@
 /* eslint-disable import/no-cycle */
 
+export * from './attachments.ts';
+export * from './blocks.ts';
 export * from './collections.ts';
 export * from './ethscriptions.ts';
+export * from './names.ts';
+export * from './profiles.ts';
+export * from './protocols.ts';
+export * from './tokens.ts';
 export * from './transactions.ts';
 export * from './transfers.ts';
 export * from './votes.ts';
@@ -0,0 +1,33 @@
+import * as sq from 'drizzle-orm/sqlite-core';
+
+// eslint-disable-next-line import/no-cycle
+import { ethscriptions } from './index.ts';
+
+// Ethscription Names, the `data:,{name}` ethscriptions, the first one of a name is the only valid one.
+// Names are case-sensitive, `Foobie` and `foobie` are different names with different SHAs (see `namesResolver`)
+export const names = sq.sqliteTable(
+  'names',
+  {
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .primaryKey()
+      .references(() => ethscriptions.id),
+
+    name: sq.text().notNull(),
+    // SHA-256 of `data:,{name}`, the same as the ethscription `content_sha`
+    content_sha: sq.text().notNull(),
+
+    creator: sq.text().notNull(),
+    current_owner: sq.text().notNull(),
+
+    // the registration
+    block_number: sq.integer().notNull(),
+    transaction_index: sq.integer().notNull(),
+  },
+  (t) => ({
+    nameUniqueIdx: sq.uniqueIndex('names_name_unique_idx').on(t.name),
+    contentShaIdx: sq.index('names_content_sha_idx').on(t.content_sha),
+    currentOwnerIdx: sq.index('names_current_owner_idx').on(t.current_owner, t.block_number),
+  }),
+);
@@ -0,0 +1,27 @@
+import * as sq from 'drizzle-orm/sqlite-core';
+
+// eslint-disable-next-line import/no-cycle
+import { protocolColumns } from './protocols.ts';
+
+// User profiles, the `application/vnd.esc.user.profile+json` ethscriptions of an address (their `creator`).
+// Every profile ethscription is a version, the latest one by block is the current profile
+export const profiles = sq.sqliteTable(
+  'profiles',
+  {
+    ...protocolColumns(),
+    block_timestamp: sq.integer().notNull(),
+
+    display_name: sq.text(),
+    bio: sq.text(),
+    avatar: sq.text(),
+    links: sq.text({ mode: 'json' }).notNull().$type<Record<string, string>>().default({}),
+    // the Ethscription Name picked as primary (see `names`), it counts only while it's owned
+    primary_name: sq.text(),
+
+    // the whole profile JSON, as is
+    data: sq.text({ mode: 'json' }).notNull().$type<Record<string, any>>(),
+  },
+  (t) => ({
+    creatorIdx: sq.index('profiles_creator_idx').on(t.creator, t.block_number),
+  }),
+);
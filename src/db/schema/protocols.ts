@@ -0,0 +1,50 @@
+import * as sq from 'drizzle-orm/sqlite-core';
+
+// eslint-disable-next-line import/no-cycle
+import { ethscriptions } from './index.ts';
+
+// Meta-protocol tables, one per protocol parser (see `src/protocols`). Every row is one ethscription
+// claimed by that protocol, with the structured fields parsed from its content (`transactions.truncated_data`).
+// User profiles and names have their own tables, see `profiles.ts` and `names.ts`
+export const protocolColumns = () => ({
+  ethscription_id: sq
+    .text()
+    .notNull()
+    .primaryKey()
+    .references(() => ethscriptions.id),
+  block_number: sq.integer().notNull(),
+  transaction_index: sq.integer().notNull(),
+  creator: sq.text().notNull(),
+});
+
+// `application/vnd.facet.tx+json`
+export const protocolFacetTxs = sq.sqliteTable('protocol_facet_txs', {
+  ...protocolColumns(),
+  op: sq.text().notNull(),
+  to_address: sq.text(),
+  function: sq.text(),
+  args: sq.text({ mode: 'json' }).$type<Record<string, any> | any[]>(),
+  data: sq.text({ mode: 'json' }).notNull().$type<Record<string, any>>(),
+});
+
+// `data:,{"p":"erc-20","op":"mint","tick":"eths","amt":"1000"}` style text inscriptions,
+// amounts are kept as strings, they can easily go beyond the safe integers
+export const protocolErc20Ops = sq.sqliteTable(
+  'protocol_erc20_ops',
+  {
+    ...protocolColumns(),
+    op: sq.text({ enum: ['deploy', 'mint', 'transfer'] }).notNull(),
+    tick: sq.text().notNull(),
+    max: sq.text(),
+    lim: sq.text(),
+    amt: sq.text(),
+    // set by the token ledger, `null` for transfer ops still waiting for their first transfer,
+    // and `settled_at_block` is the block it was decided in
+    is_valid: sq.integer({ mode: 'boolean' }),
+    settled_at_block: sq.integer(),
+    data: sq.text({ mode: 'json' }).notNull().$type<Record<string, any>>(),
+  },
+  (t) => ({
+    tickIdx: sq.index('protocol_erc20_ops_tick_idx').on(t.tick, t.op),
+  }),
+);
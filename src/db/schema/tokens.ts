@@ -0,0 +1,83 @@
+import * as sq from 'drizzle-orm/sqlite-core';
+
+// eslint-disable-next-line import/no-cycle
+import { ethscriptions } from './index.ts';
+
+// Token ledger of the "erc-20" inscriptions (see `protocol_erc20_ops` and `src/tokens`). Amounts are integers,
+// ops with amounts beyond the safe integers are invalid, so they are never in here
+
+// A token exists from its first valid `deploy` op on, later deploys of the same tick are invalid
+export const tokens = sq.sqliteTable(
+  'tokens',
+  {
+    // lowercased, ticks are case-insensitive
+    tick: sq.text().notNull().primaryKey(),
+
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .references(() => ethscriptions.id),
+    deployer: sq.text().notNull(),
+
+    max_supply: sq.integer().notNull(),
+    // per-mint limit, `null` when any amount up to the max supply can be minted at once
+    mint_limit: sq.integer(),
+    minted: sq.integer().notNull().default(0),
+
+    block_number: sq.integer().notNull(),
+    block_timestamp: sq.integer().notNull(),
+    transaction_index: sq.integer().notNull(),
+  },
+  (t) => ({
+    blockIdx: sq.index('tokens_block_idx').on(t.block_number, t.transaction_index),
+    mintedIdx: sq.index('tokens_minted_idx').on(t.minted),
+  }),
+);
+
+// Only positive balances are kept, so the rows of a tick are its holders
+export const tokenBalances = sq.sqliteTable(
+  'token_balances',
+  {
+    tick: sq
+      .text()
+      .notNull()
+      .references(() => tokens.tick),
+    address: sq.text().notNull(),
+    balance: sq.integer().notNull(),
+  },
+  (t) => ({
+    pk: sq.primaryKey({ columns: [t.tick, t.address] }),
+    balanceIdx: sq.index('token_balances_balance_idx').on(t.tick, t.balance),
+    addressIdx: sq.index('token_balances_address_idx').on(t.address),
+  }),
+);
+
+// Every balance change, in chain order, mints (without `from_address`) and executed transfer ops.
+// It's what balances are rolled back with on reorgs
+export const tokenTransfers = sq.sqliteTable(
+  'token_transfers',
+  {
+    index: sq.integer().primaryKey({ autoIncrement: true }),
+    tick: sq
+      .text()
+      .notNull()
+      .references(() => tokens.tick),
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .references(() => ethscriptions.id),
+    op: sq.text({ enum: ['mint', 'transfer'] }).notNull(),
+
+    from_address: sq.text(),
+    to_address: sq.text().notNull(),
+    amount: sq.integer().notNull(),
+
+    block_number: sq.integer().notNull(),
+    transaction_index: sq.integer().notNull(),
+    event_log_index: sq.integer(),
+  },
+  (t) => ({
+    tickIdx: sq.index('token_transfers_tick_idx').on(t.tick, t.block_number),
+    blockIdx: sq.index('token_transfers_block_idx').on(t.block_number),
+  }),
+);
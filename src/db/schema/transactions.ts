@@ -10,7 +10,7 @@ export const transactions = sq.sqliteTable('transactions', {
   transaction_type: sq.integer().notNull(),
   transaction_hash: sq.text().notNull().primaryKey(), // creation transaction hash, OR transfer transaction hash
   transaction_index: sq.integer().notNull(),
-  transaction_value: sq.integer().notNull(),
+  transaction_value: sq.text().notNull(), // in wei, a decimal string as it can be over 2^53
   transaction_fee: sq.blob({ mode: 'bigint' }).notNull(),
   gas_price: sq.text().notNull(),
   gas_used: sq.text().notNull(),
@@ -20,11 +20,11 @@ export const transactions = sq.sqliteTable('transactions', {
   // if the tx is Ethscription Transfer, this is `true`
   is_transfer: sq.integer({ mode: 'boolean' }).notNull(),
 
-  // NOTE: if the tx is Ethscription Transfer empty "" or "0x", otherwise first 1kb of the input calldata field.
+  // NOTE: first 1kb of the input calldata field, for transfers too (the transferred ids, or the contract call).
   // No need to actually host the entirety of it, we can decode it on the fly and cache it forever on CDNs and Edge.
   // But we also want to have access to the first 1kb of input calldata for filtering and indexing purposes, like meta protocols
-  truncated_data: sq.text().notNull(), // decoded value (no hex); empty if transfer
-  truncated_data_raw: sq.text().notNull(), // raw hex value; 0x if transfer
+  truncated_data: sq.text().notNull(), // decoded value (no hex)
+  truncated_data_raw: sq.text().notNull(), // raw hex value
 });
 
 // export const selectTransactionSchema = createSelectSchema(transactions);
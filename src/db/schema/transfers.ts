@@ -7,30 +7,51 @@ import { ethscriptions, transactions } from './index.ts';
 // import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 // import { z } from 'zod';
 
-export const transfers = sq.sqliteTable('transfers', {
-  // Transfer `transaction_hash` is the hash of the transaction that initiated the transfer
-  transaction_hash: sq
-    .text()
-    .notNull()
-    .references(() => transactions.transaction_hash),
-
-  // And `ethscription_id` is the Ethscription ID that was transferred
-  ethscription_id: sq
-    .text()
-    .notNull()
-    .references(() => ethscriptions.id),
-
-  index: sq.integer().primaryKey({ autoIncrement: true }),
-  event_log_index: sq.integer(),
-
-  block_blockhash: sq.text().notNull(),
-  block_number: sq.integer().notNull(),
-  block_timestamp: sq.integer().notNull(),
-  transaction_index: sq.integer().notNull(),
-
-  from_address: sq.text().notNull(),
-  to_address: sq.text().notNull(),
-});
+export const transfers = sq.sqliteTable(
+  'transfers',
+  {
+    // Transfer `transaction_hash` is the hash of the transaction that initiated the transfer
+    transaction_hash: sq
+      .text()
+      .notNull()
+      .references(() => transactions.transaction_hash),
+
+    // And `ethscription_id` is the Ethscription ID that was transferred
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .references(() => ethscriptions.id),
+
+    index: sq.integer().primaryKey({ autoIncrement: true }),
+    event_log_index: sq.integer(),
+
+    // ESIP-1 and ESIP-2 are transfers through contract events, and `event_log_index` is always set for them.
+    // ESIP-2 transfers are valid only if the `previous_owner` matches the enforced one
+    is_esip1: sq.integer({ mode: 'boolean' }).notNull().default(false),
+    is_esip2: sq.integer({ mode: 'boolean' }).notNull().default(false),
+    enforced_previous_owner: sq.text(),
+
+    // ESIP-5 is a bulk transfer, where the calldata is a concatenation of ethscription ids,
+    // `bulk_index` is the position of the id in that calldata, and null for non-bulk transfers
+    is_esip5: sq.integer({ mode: 'boolean' }).notNull().default(false),
+    bulk_index: sq.integer(),
+
+    block_blockhash: sq.text().notNull(),
+    block_number: sq.integer().notNull(),
+    block_timestamp: sq.integer().notNull(),
+    transaction_index: sq.integer().notNull(),
+
+    from_address: sq.text().notNull(),
+    to_address: sq.text().notNull(),
+  },
+  // for the ownership history, the transfers of an ethscription, or to an address, up to a block
+  (t) => ({
+    ethscriptionBlockIdx: sq
+      .index('transfers_ethscription_block_idx')
+      .on(t.ethscription_id, t.block_number),
+    toAddressBlockIdx: sq.index('transfers_to_address_block_idx').on(t.to_address, t.block_number),
+  }),
+);
 
 export const transfersRelations = relations(transfers, ({ one }) => ({
   metadata: one(transactions, {
@@ -10,33 +10,41 @@ import { ethscriptions, transactions } from './index.ts';
 
 const createCuidV2 = initCuidV2({ length: 32, fingerprint: crypto.randomUUID() });
 
-export const votes = sq.sqliteTable('votes', {
-  id: sq.text().primaryKey().$defaultFn(createCuidV2),
-
-  // Both `transaction_hash` and `ethscription_id` are the same,
-  // this one is use to link to `metadata` and the `transactions` table
-  // cuz weirdly you cannot make to `one-to-one` relations using the same field?!
-  transaction_hash: sq
-    .text()
-    .notNull()
-    .references(() => transactions.transaction_hash),
-
-  // And `ethscription_id` is the Ethscription ID that was transferred
-  ethscription_id: sq
-    .text()
-    .notNull()
-    .references(() => ethscriptions.id),
-
-  voted_at: sq
-    .integer()
-    .notNull()
-    .default(sql`(unixepoch())`),
-
-  voter: sq.text().notNull(),
-  rank: sq.integer().default(0),
-  up: sq.integer({ mode: 'boolean' }).notNull(),
-  down: sq.integer({ mode: 'boolean' }).notNull(),
-});
+export const votes = sq.sqliteTable(
+  'votes',
+  {
+    id: sq.text().primaryKey().$defaultFn(createCuidV2),
+
+    // Both `transaction_hash` and `ethscription_id` are the same,
+    // this one is use to link to `metadata` and the `transactions` table
+    // cuz weirdly you cannot make to `one-to-one` relations using the same field?!
+    transaction_hash: sq
+      .text()
+      .notNull()
+      .references(() => transactions.transaction_hash),
+
+    // And `ethscription_id` is the Ethscription ID that was transferred
+    ethscription_id: sq
+      .text()
+      .notNull()
+      .references(() => ethscriptions.id),
+
+    voted_at: sq
+      .integer()
+      .notNull()
+      .default(sql`(unixepoch())`),
+
+    voter: sq.text().notNull(),
+    rank: sq.integer().default(0),
+    up: sq.integer({ mode: 'boolean' }).notNull(),
+    down: sq.integer({ mode: 'boolean' }).notNull(),
+  },
+  (t) => ({
+    // the sorts of the list, by rank or vote time
+    rankIdx: sq.index('votes_rank_idx').on(t.rank, t.voted_at),
+    votedAtIdx: sq.index('votes_voted_at_idx').on(t.voted_at),
+  }),
+);
 
 export const votesRelations = relations(votes, ({ one }) => ({
   metadata: one(transactions, {
@@ -35,8 +35,10 @@
 // ethscription_number: sq.integer(),
 
 import { faker } from '@faker-js/faker';
+import { eq } from 'drizzle-orm';
 import { toHex } from 'viem';
 
+import { recomputeOwners } from '@/indexer/ownership.ts';
 import { db } from './index.ts';
 import {
   CollectionInsertType,
@@ -148,7 +150,7 @@ async function main() {
           transaction_type: faker.number.int({ min: 0, max: 2 }),
           transaction_hash: transactionHashes[i],
           transaction_index: faker.number.int({ min: 0, max: 1000 }),
-          transaction_value: faker.number.int({ min: 0, max: 1_000_000 }),
+          transaction_value: String(faker.number.int({ min: 0, max: 1_000_000 })),
           transaction_fee: BigInt('1000000000000000'),
           gas_price: '50000000000',
           gas_used: '21000',
@@ -208,6 +210,39 @@ async function main() {
     })),
   );
 
+  // Insert an ESIP-5 bulk transfer, a single transaction moving a few ethscriptions at once. The sender owns
+  // all of them, as the indexer requires, they are the ones of the owner of the first ethscription that
+  // the transfers above don't touch
+  const bulkTransaction = createdTransactions[95];
+  const bulkSender = createdEthscriptions[25].current_owner;
+  const bulkIds = createdEthscriptions
+    .slice(25)
+    .filter((x) => x.current_owner === bulkSender)
+    .slice(0, 3)
+    .map((x) => x.id);
+
+  await db
+    .update(transactions)
+    .set({ from_address: bulkSender })
+    .where(eq(transactions.transaction_hash, bulkTransaction.transaction_hash));
+  await db.insert(transfers).values(
+    bulkIds.map((id, i) => ({
+      transaction_hash: bulkTransaction.transaction_hash,
+      ethscription_id: id,
+      block_blockhash: bulkTransaction.block_blockhash,
+      block_number: bulkTransaction.block_number,
+      block_timestamp: bulkTransaction.block_timestamp,
+      transaction_index: bulkTransaction.transaction_index,
+      from_address: bulkSender,
+      to_address: bulkTransaction.to_address,
+      is_esip5: true,
+      bulk_index: i,
+    })),
+  );
+
+  // and the owners of those, as the indexer sets them after a transfer
+  await recomputeOwners(db, bulkIds);
+
   const voteType = faker.datatype.boolean();
   // Insert random votes
   await db.insert(votes).values(
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MPL-2.0
+
+import type { ParsedDataUri } from './types.ts';
+
+// data:[<mimetype>][;<parameter>]*[;base64],<data>
+const DATA_URI_REGEX =
+  /^data:(?<mimetype>[^\s,;]*)(?<parameters>(?:;[^\s,;]+)*?)(?<base64>;base64)?,(?<data>[\S\s]*)$/i;
+
+export function parseDataUri(uri: string): ParsedDataUri | null {
+  const match = DATA_URI_REGEX.exec(uri || '');
+
+  if (!match?.groups) {
+    return null;
+  }
+
+  // per RFC 2397, when the media type is omitted it defaults to `text/plain`
+  const mimetype = (match.groups.mimetype || 'text/plain').toLowerCase();
+  const [media_type, ...subtype] = mimetype.split('/');
+
+  if (!media_type || subtype.length === 0) {
+    return null;
+  }
+
+  const parameters = (match.groups.parameters || '').split(';').filter(Boolean);
+
+  return {
+    mimetype,
+    media_type,
+    media_subtype: subtype.join('/'),
+    parameters,
+    base64: Boolean(match.groups.base64),
+    data: match.groups.data,
+    is_esip6: parameters.includes('rule=esip6'),
+  };
+}
+
+export function isDataUri(uri: string) {
+  return parseDataUri(uri) !== null;
+}
+
+export function isGzipDataUri(uri: string) {
+  const parsed = parseDataUri(uri);
+
+  return Boolean(parsed?.parameters.some((param) => param.toLowerCase() === 'gzip'));
+}
+
+// The payload bytes of a data URI, base64-decoded or percent-decoded (RFC 2397), byte by byte,
+// so that percent-encoded binary payloads (like gzipped ones) are decoded correctly
+export function decodeDataUriPayload(parsed: ParsedDataUri): Uint8Array {
+  if (parsed.base64) {
+    return Uint8Array.from(atob(parsed.data.replaceAll(/\s/g, '')), (x) => x.codePointAt(0) || 0);
+  }
+
+  const bytes: number[] = [];
+  const text = new TextEncoder().encode(parsed.data);
+
+  for (let idx = 0; idx < text.length; idx += 1) {
+    const hex = String.fromCodePoint(text[idx + 1] || 0, text[idx + 2] || 0);
+
+    if (text[idx] === 0x25 && /^[\dA-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      idx += 2;
+    } else {
+      bytes.push(text[idx]);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// ESIP-7: gzipped data URIs, like `data:text/html;gzip;base64,H4sI...`. The gzip is applied over the payload,
+// as it's written in the uncompressed data URI, ie. over the decoded bytes for base64 ones, and over the text for
+// the rest. The canonical form, the one `content_sha` is computed over, is the uncompressed one without the `gzip` parameter
+export async function decompressDataUri(uri: string) {
+  const parsed = parseDataUri(uri);
+  const params = parsed?.parameters.filter((param) => param.toLowerCase() !== 'gzip') || [];
+
+  if (!parsed || params.length === parsed.parameters.length) {
+    return uri;
+  }
+
+  const bytes = await gzipTransform(decodeDataUriPayload(parsed), new DecompressionStream('gzip'));
+  const prefix = ['data:', parsed.mimetype, ...params.map((x) => `;${x}`)].join('');
+
+  return parsed.base64
+    ? `${prefix};base64,${bytesToBase64(bytes)}`
+    : `${prefix},${new TextDecoder('utf8', { fatal: true }).decode(bytes)}`;
+}
+
+// The reverse of `decompressDataUri`, used to show how much compressing the content would save.
+// The result is always base64, so for non-base64 data URIs it is not the exact reverse (and has another canonical form)
+export async function compressDataUri(uri: string) {
+  const parsed = parseDataUri(uri);
+
+  if (!parsed || isGzipDataUri(uri)) {
+    return uri;
+  }
+
+  const bytes = await gzipTransform(decodeDataUriPayload(parsed), new CompressionStream('gzip'));
+  const prefix = ['data:', parsed.mimetype, ...parsed.parameters.map((x) => `;${x}`)].join('');
+
+  return `${prefix};gzip;base64,${bytesToBase64(bytes)}`;
+}
+
+// Sizes (in bytes) of both the gzipped and the uncompressed form of a data URI, whichever one is given
+export async function getDataUriSizes(uri: string) {
+  const gzip = isGzipDataUri(uri);
+  const compressed = gzip ? uri : await compressDataUri(uri);
+  const decompressed = gzip ? await decompressDataUri(uri) : uri;
+  const encoder = new TextEncoder();
+
+  return {
+    gzip,
+    compressed_size: encoder.encode(compressed).length,
+    decompressed_size: encoder.encode(decompressed).length,
+  };
+}
+
+async function gzipTransform(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+) {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = '';
+
+  for (let idx = 0; idx < bytes.length; idx += 0x80_00) {
+    binary += String.fromCodePoint(...bytes.subarray(idx, idx + 0x80_00));
+  }
+
+  return btoa(binary);
+}
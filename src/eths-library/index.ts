@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: MPL-2.0
 
 import { BASE_API_URL, CACHE_TTL } from './constants.ts';
+import { compressDataUri, decompressDataUri, getDataUriSizes, isGzipDataUri } from './data-uri.ts';
 import type {
   BaseCostOpts,
   CheckExistResult,
@@ -168,9 +169,16 @@ export async function getDigestForData(
         ? hex2bytes((input as string).replace(/^0x/, ''))
         : (input as Uint8Array);
 
-    const sha = await createDigest(data);
     const hexed = bytes2hex(data);
     const inputData = new TextDecoder('utf8').decode(data);
+    const isGzip = isGzipDataUri(inputData);
+    // ESIP-7: the sha of a gzipped data URI is the one of its uncompressed (canonical) form, the rest are
+    // hashed as the raw bytes, as the text decoding replaces the invalid UTF-8 sequences
+    const sha = await createDigest(isGzip ? await decompressDataUri(inputData) : data);
+    const sizes = {
+      ...(await getDataUriSizes(inputData)),
+      ...(isGzip ? {} : { decompressed_size: data.length }),
+    };
 
     if (opts.checkExists) {
       const resp = await checkExists(sha, opts);
@@ -185,6 +193,7 @@ export async function getDigestForData(
           sha,
           hex: `0x${hexed}`,
           input: inputData,
+          ...sizes,
           exists: resp.result.exists,
           ethscription: resp.result.ethscription,
         } as DigestResultWithEthscription,
@@ -194,7 +203,7 @@ export async function getDigestForData(
 
     return {
       ok: true,
-      result: { sha, hex: `0x${hexed}`, input: inputData } as DigestResult,
+      result: { sha, hex: `0x${hexed}`, input: inputData, ...sizes } as DigestResult,
       headers: opts.headers || getHeaders(opts.cacheTtl ?? 300),
     } as Result<DigestResult>;
   } catch (err: any) {
@@ -442,10 +451,24 @@ export async function estimateDataCost(
         ? hex2bytes((input as string).replace(/^0x/, ''))
         : (input as Uint8Array);
 
-    const dataWei = data.reduce((acc, byte) => acc + (byte === 0 ? 4 : 16), 0);
     const transferWei = 21_000;
     const bufferWei = opts.bufferFee || 0;
-    const usedWei = dataWei + transferWei + bufferWei;
+    const gasFor = (bytes: Uint8Array) =>
+      bytes.reduce((acc, byte) => acc + (byte === 0 ? 4 : 16), 0) + transferWei + bufferWei;
+    const usedWei = gasFor(data);
+
+    // ESIP-7: how much gas the gzipped and the uncompressed forms need, whichever one is given
+    const inputData = new TextDecoder('utf8').decode(data);
+    // the given form is counted as is, and the other one as the given one when it can't be converted (broken gzip)
+    const isGzip = isGzipDataUri(inputData);
+    const converted = await (
+      isGzip ? decompressDataUri(inputData) : compressDataUri(inputData)
+    ).then(
+      (uri) => new TextEncoder().encode(uri),
+      () => data,
+    );
+    const compressed = isGzip ? data : converted;
+    const decompressed = isGzip ? converted : data;
     const totalGasWei = opts.gasPrice ? opts.gasPrice * 1e9 : opts.baseFee + opts.priorityFee;
     const costWei = usedWei * totalGasWei;
 
@@ -457,7 +480,15 @@ export async function estimateDataCost(
       result: {
         prices: opts as PricesResult & BaseCostOpts,
         cost: { wei: costWei, eth, usd },
-        meta: { gasNeeded: usedWei, inputLength: input.length },
+        meta: {
+          gasNeeded: usedWei,
+          inputLength: input.length,
+          gzip: isGzip,
+          compressedLength: compressed.length,
+          decompressedLength: decompressed.length,
+          compressedGasNeeded: gasFor(compressed),
+          decompressedGasNeeded: gasFor(decompressed),
+        },
       },
     };
   } catch (err: any) {
@@ -38,14 +38,20 @@ export type UserProfileResult = {
   previous: EthscriptionBase[];
 };
 
-export type DigestResult = {
+export type DataUriSizes = {
+  gzip: boolean;
+  compressed_size: number;
+  decompressed_size: number;
+};
+
+export type DigestResult = DataUriSizes & {
   sha: string;
   hex: `0x${string}`;
   input: string;
   exists?: boolean;
   ethscription?: EthscriptionBase;
 };
-export type DigestResultWithEthscription = {
+export type DigestResultWithEthscription = DataUriSizes & {
   sha: string;
   hex: `0x${string}`;
   input: string;
@@ -100,7 +106,15 @@ export type EsimtateCostOptions =
 export type EstimateCostResult = {
   prices: PricesResult & BaseCostOpts;
   cost: { wei: number; eth: number; usd: number };
-  meta: { gasNeeded: number; inputLength: number };
+  meta: {
+    gasNeeded: number;
+    inputLength: number;
+    gzip: boolean;
+    compressedLength: number;
+    decompressedLength: number;
+    compressedGasNeeded: number;
+    decompressedGasNeeded: number;
+  };
 };
 
 export type EthscriptionTransfer = {
@@ -181,3 +195,13 @@ export type DetailedMap<T extends EnumAllDetailed> = {
 
 export type ResultDetailed<T extends EnumAllDetailed> = OkShape<DetailedMap<T>> | NotOkShape;
 export type Result<T> = OkShape<T> | NotOkShape;
+
+export type ParsedDataUri = {
+  mimetype: `${string}/${string}` | string;
+  media_type: string;
+  media_subtype: string;
+  parameters: string[];
+  base64: boolean;
+  data: string;
+  is_esip6: boolean;
+};
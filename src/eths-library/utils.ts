@@ -143,9 +143,11 @@ export function normalizeAndSortTransfers(transfers: any[]) {
       .map(({ ethscription_transaction_hash, ...x }, idx) => ({
         ...x,
         is_esip0: idx === 0,
-        // theoretically, it could be ESIP-1 Transfer too, but ESIP-2 is more used and more likely
-        is_esip1: Boolean(x.event_log_index !== null),
-        is_esip2: Boolean(x.event_log_index !== null),
+        // event transfers are ESIP-2 only when there is an enforced previous owner, otherwise ESIP-1,
+        // locally indexed transfers already carry the real flags
+        is_esip1: x.is_esip1 ?? Boolean(x.event_log_index !== null && !x.enforced_previous_owner),
+        is_esip2:
+          x.is_esip2 ?? Boolean(x.event_log_index !== null && Boolean(x.enforced_previous_owner)),
       }))
       // sort by block number, newest fist
       .sort((a, b) => b.block_number - a.block_number)
@@ -380,7 +382,8 @@ export async function namesResolver(
   // NOTE 2: support reverse resolving, like passing an address and finding the primary Ethscription Name,
   // which could be tricky because one can have multiple. The only way,
   // is if they specifically set "primary" field in their Ethscription User Profile;
-  // or just return the first from a list of owned Ethscription Names
+  // or just return the first from a list of owned Ethscription Names.
+  // That's what the locally indexed names registry does (see `src/names` and `resolveUserLocally` in the server)
 
   // NOTE 3: on `nameUri`. Should use the raw input and not force lowercase, because both are different things and SHAs.
   // By default the Ethscription Name is case-insensitive (regex /[a-z0-9]/gi), and force lowercase, which may lead to scams, confusion, etc,
@@ -1,5 +1,6 @@
 export * from './endpoints-docs.ts';
 export * from './helpers.ts';
+export * from './local.ts';
 export * from './routes.ts';
 export * from './schemas.ts';
 
@@ -0,0 +1,139 @@
+import { asc, eq } from 'drizzle-orm';
+
+import { ethscriptions, transactions } from '@/db/schema/index.ts';
+import { CACHE_TTL } from '@/eths-library/constants.ts';
+import type { CheckExistResult, ResolveUserResult, Result } from '@/eths-library/types.ts';
+import { getHeaders, isAddress, normalizeResult } from '@/eths-library/utils.ts';
+import type { Database } from '@/indexer/types.ts';
+import { getPrimaryName, resolveName } from '@/names/index.ts';
+
+// The database, loaded on first use. The eths-server also runs as a plain proxy of the upstream API,
+// without one (no `TURSO_DATABASE_URL`), and then nothing is answered locally
+async function getLocalDb(): Promise<Database | null> {
+  if (!process.env.TURSO_DATABASE_URL) {
+    return null;
+  }
+
+  const { db } = await import('@/db/index.ts');
+
+  return db;
+}
+
+// Answers `/exists/:sha` from the locally indexed ethscriptions, returns `null` when there's
+// no match (or the database is not reachable), so that the caller can fall back to the upstream API
+export async function checkExistsLocally(
+  sha: string,
+  options?: any,
+): Promise<Result<CheckExistResult> | null> {
+  const opts = { ...options };
+  const hash = (sha || '').replace('0x', '').toLowerCase();
+
+  if (!/^[\da-f]{64}$/.test(hash)) {
+    return null;
+  }
+
+  try {
+    const db = await getLocalDb();
+
+    if (!db) {
+      return null;
+    }
+
+    // the original is the non ESIP-6 one, if the content was ethscribed only as duplicates, the oldest of them
+    const [row] = await db
+      .select({ ethscription: ethscriptions, metadata: transactions })
+      .from(ethscriptions)
+      .innerJoin(transactions, eq(ethscriptions.id, transactions.transaction_hash))
+      .where(eq(ethscriptions.content_sha, `0x${hash}`))
+      .orderBy(
+        asc(ethscriptions.is_esip6),
+        asc(ethscriptions.block_number),
+        asc(ethscriptions.transaction_index),
+      )
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    const { ethscription: eth, metadata: meta } = row;
+
+    // shaped like the upstream API results, so it's normalized the same way
+    const upstreamLike = {
+      block_number: eth.block_number,
+      block_blockhash: meta.block_blockhash,
+      block_timestamp: eth.block_timestamp,
+      transaction_hash: eth.id,
+      transaction_index: eth.transaction_index,
+      value: meta.transaction_value,
+      transaction_fee: meta.transaction_fee,
+      gas_price: meta.gas_price,
+      gas_used: meta.gas_used,
+      creator: eth.creator,
+      initial_owner: eth.initial_owner,
+      media_type: eth.media_type,
+      mime_subtype: eth.media_subtype,
+      mimetype: eth.content_type,
+      content_sha: eth.content_sha,
+    };
+
+    // the ESIP flags are derived from upstream-only fields, the indexed ones are used as is
+    const ethscription = {
+      ...normalizeResult(upstreamLike, opts),
+      is_esip0: eth.is_esip0,
+      is_esip3: eth.is_esip3,
+      is_esip4: eth.is_esip4,
+      is_esip6: eth.is_esip6,
+      is_esip8: eth.is_esip8,
+    };
+
+    return {
+      ok: true,
+      result: { exists: true, ethscription } as CheckExistResult,
+      headers: opts.headers || getHeaders(opts.cacheTtl ?? CACHE_TTL),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Answers `/resolve/:name` from the local names registry, an address to its primary Ethscription Name,
+// or a name to its owner (creator with `checkCreator`). A name or address that is not in the registry is
+// not found, without any network calls, unless `upstream` is set, then `null` is returned for it as for
+// ENS names (`.eth`) and when there's no local database, so that the caller falls back to `resolveUser`
+export async function resolveUserLocally(
+  val: string,
+  options?: any,
+): Promise<Result<ResolveUserResult> | null> {
+  const opts = { checkCreator: false, upstream: false, ...options };
+
+  if (/\.eth$/i.test(val)) {
+    return null;
+  }
+
+  try {
+    const db = await getLocalDb();
+
+    if (!db) {
+      return null;
+    }
+
+    const result: ResolveUserResult | null = isAddress(val)
+      ? await getPrimaryName(db, val).then((x) =>
+          x ? { name: x.name, address: val.toLowerCase() as `0x${string}` } : null,
+        )
+      : await resolveName(db, val, opts).then((x) =>
+          x ? { name: val, address: x as `0x${string}` } : null,
+        );
+
+    if (result) {
+      return { ok: true, result, headers: opts.headers || getHeaders(opts.cacheTtl ?? 3600) };
+    }
+
+    return opts.upstream
+      ? null
+      : { ok: false, error: { message: `Cannot resolve ${val}`, httpStatus: 404 } };
+  } catch {
+    return null;
+  }
+}
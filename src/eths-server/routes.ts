@@ -1,3 +1,6 @@
+import { type Context } from 'hono';
+import { z } from 'zod';
+
 import {
   checkExists,
   estimateDataCost,
@@ -13,10 +16,9 @@ import {
 import type { EnumAllDetailed } from '@/eths-library/types.ts';
 import { getHeaders, getPrices } from '@/eths-library/utils.ts';
 import { booleanSchema } from '@/utils/params-validation.ts';
-import { type Context } from 'hono';
-import { z } from 'zod';
 import { ENDPOINTS } from './endpoints-docs.ts';
 import { createApp, toHonoHandler, validate } from './helpers.ts';
+import { checkExistsLocally, resolveUserLocally } from './local.ts';
 import { DataURISchema, FilterSchema, HashSchema, IdSchema, UserSchema } from './schemas.ts';
 
 export function withRoutes(app: ReturnType<typeof createApp>) {
@@ -221,7 +223,12 @@ export function withRoutes(app: ReturnType<typeof createApp>) {
   app.get(
     '/exists/:sha',
     validate('param', z.object({ sha: HashSchema })),
-    toHonoHandler((ctx: Context) => checkExists(ctx.req.param('sha'))),
+    toHonoHandler(async (ctx: Context) => {
+      const sha = ctx.req.param('sha');
+
+      // the locally indexed ethscriptions first, the upstream API for anything not indexed (yet)
+      return (await checkExistsLocally(sha)) || checkExists(sha);
+    }),
   );
 
   app.get(
@@ -238,8 +245,16 @@ export function withRoutes(app: ReturnType<typeof createApp>) {
     ),
     toHonoHandler(async (ctx: Context) => {
       const checkCreator = Boolean(ctx.req.query('creator') || ctx.req.query('checkCreator'));
+      const name = ctx.req.param('name');
+
+      // the local names registry, without any network calls. ENS names, and with `RESOLVE_UPSTREAM=true` the
+      // names not in the registry, are resolved through ENS and the upstream API, as is everything without a database
+      const upstream = process.env.RESOLVE_UPSTREAM === 'true';
 
-      return resolveUser(ctx.req.param('name'), { checkCreator });
+      return (
+        (await resolveUserLocally(name, { checkCreator, upstream })) ||
+        resolveUser(name, { checkCreator })
+      );
     }),
   );
 
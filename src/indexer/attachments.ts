@@ -0,0 +1,42 @@
+import { gzipSync } from 'node:zlib';
+import { eq } from 'drizzle-orm';
+import { sha256 } from 'viem';
+
+import { attachments, ethscriptions } from '@/db/schema/index.ts';
+import type { StorageAdapter } from '@/storage/index.ts';
+import type { DecodedAttachment } from './decode.ts';
+import type { DbClient, Hex } from './types.ts';
+
+export function getAttachmentKey(sha: string) {
+  return `attachments/${sha}`;
+}
+
+// The bytes are content-addressed, so the same attachment on many ethscriptions is stored once,
+// and is never removed from the storage on rollback, only the row linking it to the ethscription is
+export async function storeAttachment(
+  tx: DbClient,
+  storage: StorageAdapter,
+  id: Hex,
+  attachment: DecodedAttachment,
+) {
+  const sha = sha256(attachment.content);
+  const compressed = new Uint8Array(gzipSync(attachment.content));
+  const key = getAttachmentKey(sha);
+
+  if (!(await storage.has(key))) {
+    await storage.put(key, compressed);
+  }
+
+  await tx
+    .insert(attachments)
+    .values({
+      ethscription_id: id,
+      attachment_sha: sha,
+      content_type: attachment.content_type,
+      size: attachment.content.length,
+      compressed_size: compressed.length,
+    })
+    .onConflictDoNothing();
+
+  await tx.update(ethscriptions).set({ is_esip8: true }).where(eq(ethscriptions.id, id));
+}
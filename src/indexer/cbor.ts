@@ -0,0 +1,98 @@
+// Minimal CBOR (RFC 8949) decoder, just enough for ESIP-8 attachments: unsigned and negative integers,
+// byte and text strings, arrays, maps and the simple values. Indefinite lengths, tags and floats are not supported
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const utf8 = new TextDecoder('utf8', { fatal: true });
+  let offset = 0;
+
+  const take = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new Error('CBOR: unexpected end of input');
+    }
+
+    const chunk = bytes.subarray(offset, offset + length);
+    offset += length;
+
+    return chunk;
+  };
+
+  const readLength = (info: number) => {
+    const at = offset;
+
+    if (info < 24) return info;
+    if (info === 24) return take(1)[0];
+    if (info === 25) return take(2) && view.getUint16(at);
+    if (info === 26) return take(4) && view.getUint32(at);
+    if (info === 27) {
+      const value = take(8) && view.getBigUint64(at);
+
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error('CBOR: integer too large');
+      }
+
+      return Number(value);
+    }
+
+    throw new Error(`CBOR: unsupported additional info ${info}`);
+  };
+
+  const readItem = (): unknown => {
+    const initial = take(1)[0];
+    // high 3 bits are the major type, low 5 bits the additional info
+    const major = Math.floor(initial / 32);
+    const info = initial % 32;
+
+    switch (major) {
+      case 0: {
+        return readLength(info);
+      }
+      case 1: {
+        return -1 - readLength(info);
+      }
+      case 2: {
+        return take(readLength(info)).slice();
+      }
+      case 3: {
+        return utf8.decode(take(readLength(info)));
+      }
+      case 4: {
+        return Array.from({ length: readLength(info) }, () => readItem());
+      }
+      case 5: {
+        const length = readLength(info);
+        const map: Record<string, unknown> = {};
+
+        for (let idx = 0; idx < length; idx += 1) {
+          const key = readItem();
+
+          if (typeof key !== 'string' && typeof key !== 'number') {
+            throw new TypeError('CBOR: only string and integer map keys are supported');
+          }
+
+          map[key] = readItem();
+        }
+
+        return map;
+      }
+      case 7: {
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+
+        throw new Error(`CBOR: unsupported simple value ${info}`);
+      }
+      default: {
+        throw new Error(`CBOR: unsupported major type ${major}`);
+      }
+    }
+  };
+
+  const value = readItem();
+
+  if (offset !== bytes.length) {
+    throw new Error('CBOR: unexpected trailing bytes');
+  }
+
+  return value;
+}
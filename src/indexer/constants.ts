@@ -0,0 +1,34 @@
+// the first block with an ethscription in it, nothing to index before that
+export const ETHSCRIPTIONS_START_BLOCK = 17_034_870;
+
+// mainnet blocks the ESIPs are active from, before them the calldata and the logs are read without them
+export const ESIP_1_START_BLOCK = 17_672_762; // transfers through contract events
+export const ESIP_2_START_BLOCK = 17_764_910; // event transfers enforcing the previous owner
+export const ESIP_3_START_BLOCK = 18_130_000; // creations through contract events
+export const ESIP_5_START_BLOCK = 18_330_000; // bulk transfers in a single calldata
+export const ESIP_8_START_BLOCK = 19_526_000; // attachments carried in the transaction blobs
+
+// how far back the indexer looks for a common ancestor when the chain reorgs
+export const MAX_REORG_DEPTH = 64;
+
+// first 1kb of the input calldata is kept in `transactions.truncated_data`
+export const TRUNCATED_DATA_LENGTH = 1024;
+
+// keccak256('ethscriptions_protocol_CreateEthscription(address,string)')
+export const CREATE_ETHSCRIPTION_TOPIC =
+  '0x665fba0baf3dc33e9943340197893ac16f56482c2defb8de60f944987fee451c';
+
+// keccak256('ethscriptions_protocol_TransferEthscription(address,bytes32)')
+export const TRANSFER_ETHSCRIPTION_TOPIC =
+  '0xf30861289185032f511ff94a8127e470f3d0e6230be4925cb6fad33f3436dffb';
+
+// keccak256('ethscriptions_protocol_TransferEthscriptionForPreviousOwner(address,address,bytes32)')
+export const TRANSFER_ETHSCRIPTION_FOR_PREVIOUS_OWNER_TOPIC =
+  '0xf1d95ed4d1680e6f665104f19c296ae52c1f64cd8114e84d55dc6349dbdafea3';
+
+// mainnet beacon chain genesis, used to find the slot (and so the blobs) of a block
+export const BEACON_GENESIS_TIME = 1_606_824_023;
+export const BEACON_SECONDS_PER_SLOT = 12;
+
+// ESIP-8: limit of the attachment content type length
+export const MAX_ATTACHMENT_CONTENT_TYPE_LENGTH = 1000;
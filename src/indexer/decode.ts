@@ -0,0 +1,186 @@
+import { gunzipSync } from 'node:zlib';
+import { bytesToHex, decodeAbiParameters, fromBlobs, hexToBytes } from 'viem';
+
+import { parseDataUri } from '@/eths-library/data-uri.ts';
+import type { ParsedDataUri } from '@/eths-library/types.ts';
+import { decodeCbor } from './cbor.ts';
+import {
+  CREATE_ETHSCRIPTION_TOPIC,
+  ESIP_1_START_BLOCK,
+  ESIP_2_START_BLOCK,
+  ESIP_3_START_BLOCK,
+  ESIP_5_START_BLOCK,
+  ESIP_8_START_BLOCK,
+  MAX_ATTACHMENT_CONTENT_TYPE_LENGTH,
+  TRANSFER_ETHSCRIPTION_FOR_PREVIOUS_OWNER_TOPIC,
+  TRANSFER_ETHSCRIPTION_TOPIC,
+  TRUNCATED_DATA_LENGTH,
+} from './constants.ts';
+import type { Hex, IndexerLog } from './types.ts';
+
+export type DecodedCreation = {
+  type: 'create';
+  uri: string;
+  parsed: ParsedDataUri;
+};
+
+export type DecodedTransfer = {
+  type: 'transfer';
+  ids: Hex[];
+};
+
+export type DecodedCalldata = DecodedCreation | DecodedTransfer | null;
+
+export type DecodedAttachment = {
+  content: Uint8Array;
+  content_type: string;
+};
+
+const utf8 = new TextDecoder('utf8', { fatal: true });
+
+export function decodeDataUriBytes(bytes: Uint8Array): DecodedCreation | null {
+  let uri: string;
+
+  try {
+    uri = utf8.decode(bytes);
+  } catch {
+    return null;
+  }
+
+  const parsed = uri.startsWith('data:') ? parseDataUri(uri) : null;
+
+  return parsed ? { type: 'create', uri, parsed } : null;
+}
+
+// Creation always takes precedence, a calldata of exactly 32 bytes could be a valid data URI too.
+// Otherwise, a calldata of 32 bytes is a single transfer, and a multiple of 32 bytes is
+// an ESIP-5 bulk transfer of all the concatenated ethscription ids, in the order they appear (once it's active)
+export function decodeCalldata(input: Hex, blockNumber: number): DecodedCalldata {
+  const bytes = hexToBytes(input || '0x');
+
+  if (bytes.length === 0) {
+    return null;
+  }
+
+  const creation = decodeDataUriBytes(bytes);
+
+  if (creation) {
+    return creation;
+  }
+
+  if (bytes.length === 32 || (bytes.length % 32 === 0 && blockNumber >= ESIP_5_START_BLOCK)) {
+    const hex = input.slice(2).toLowerCase();
+    const ids = hex.match(/.{64}/g)?.map((id) => `0x${id}` as Hex) || [];
+
+    return { type: 'transfer', ids };
+  }
+
+  return null;
+}
+
+// ESIP-3: event ethscriptions_protocol_CreateEthscription(address indexed initialOwner, string contentURI)
+export function decodeCreateEthscriptionLog(log: IndexerLog, blockNumber: number) {
+  if (blockNumber < ESIP_3_START_BLOCK) {
+    return null;
+  }
+  if (log.topics[0] !== CREATE_ETHSCRIPTION_TOPIC || log.topics.length !== 2) {
+    return null;
+  }
+
+  try {
+    const [contentUri] = decodeAbiParameters([{ type: 'string' }], log.data);
+    const creation = decodeDataUriBytes(new TextEncoder().encode(contentUri));
+
+    if (!creation) {
+      return null;
+    }
+
+    return { ...creation, initial_owner: topicToAddress(log.topics[1]) };
+  } catch {
+    return null;
+  }
+}
+
+// ESIP-1: event ethscriptions_protocol_TransferEthscription(address indexed recipient, bytes32 indexed id)
+// ESIP-2: event ethscriptions_protocol_TransferEthscriptionForPreviousOwner(
+//   address indexed previousOwner, address indexed recipient, bytes32 indexed id)
+// In both cases the emitting contract is the sender, so it must be the current owner
+export function decodeTransferEthscriptionLog(log: IndexerLog, blockNumber: number) {
+  if (
+    log.topics[0] === TRANSFER_ETHSCRIPTION_TOPIC &&
+    log.topics.length === 3 &&
+    blockNumber >= ESIP_1_START_BLOCK
+  ) {
+    return {
+      id: log.topics[2],
+      from: log.address,
+      to: topicToAddress(log.topics[1]),
+      enforced_previous_owner: null,
+      is_esip1: true,
+      is_esip2: false,
+    };
+  }
+
+  if (
+    log.topics[0] === TRANSFER_ETHSCRIPTION_FOR_PREVIOUS_OWNER_TOPIC &&
+    log.topics.length === 4 &&
+    blockNumber >= ESIP_2_START_BLOCK
+  ) {
+    return {
+      id: log.topics[3],
+      from: log.address,
+      to: topicToAddress(log.topics[2]),
+      enforced_previous_owner: topicToAddress(log.topics[1]),
+      is_esip1: false,
+      is_esip2: true,
+    };
+  }
+
+  return null;
+}
+
+// ESIP-8: the blobs of a creation transaction carry a CBOR object `{ content, contentType }`,
+// optionally gzipped, and spread across the blobs the same way viem's `toBlobs` does it
+export function decodeAttachment(blobs: Hex[], blockNumber: number): DecodedAttachment | null {
+  if (blockNumber < ESIP_8_START_BLOCK) {
+    return null;
+  }
+
+  try {
+    let bytes = fromBlobs({ blobs, to: 'bytes' });
+
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      bytes = new Uint8Array(gunzipSync(bytes));
+    }
+
+    const value: any = decodeCbor(bytes);
+    const keys = value && typeof value === 'object' ? Object.keys(value).sort() : [];
+
+    if (keys.join(',') !== 'content,contentType') {
+      return null;
+    }
+    if (!(value.content instanceof Uint8Array) || typeof value.contentType !== 'string') {
+      return null;
+    }
+    if (value.contentType.length > MAX_ATTACHMENT_CONTENT_TYPE_LENGTH) {
+      return null;
+    }
+
+    return { content: value.content, content_type: value.contentType };
+  } catch {
+    return null;
+  }
+}
+
+export function topicToAddress(topic: Hex): Hex {
+  return `0x${topic.slice(-40)}`.toLowerCase() as Hex;
+}
+
+export function truncateCalldata(input: Hex) {
+  const bytes = hexToBytes(input || '0x').slice(0, TRUNCATED_DATA_LENGTH);
+
+  return {
+    truncated_data: new TextDecoder('utf8').decode(bytes),
+    truncated_data_raw: bytesToHex(bytes),
+  };
+}
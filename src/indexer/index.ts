@@ -0,0 +1,70 @@
+import { max } from 'drizzle-orm';
+
+import { blocks } from '@/db/schema/index.ts';
+import { ETHSCRIPTIONS_START_BLOCK } from './constants.ts';
+import { ingestBlock } from './ingest.ts';
+import { findCommonAncestor, getIndexedBlock, rollbackToBlock } from './rollback.ts';
+import type { DbClient, IndexerOptions, IndexerResult } from './types.ts';
+
+export * from './attachments.ts';
+export * from './cbor.ts';
+export * from './decode.ts';
+export * from './ingest.ts';
+export * from './numbering.ts';
+export * from './ownership.ts';
+export * from './rollback.ts';
+export * from './source.ts';
+export type * from './types.ts';
+
+export async function getLastIndexedBlock(db: DbClient): Promise<number | null> {
+  const [{ last }] = await db.select({ last: max(blocks.block_number) }).from(blocks);
+
+  return last ?? null;
+}
+
+// Resumes from the block after the last indexed one, and goes until `toBlock` or the chain head.
+// When a block does not build on top of the last indexed one, the orphaned blocks are rolled back
+// to the common ancestor and the canonical branch is ingested from there
+export async function runIndexer(options: IndexerOptions): Promise<IndexerResult> {
+  const { db, source } = options;
+  const last = await getLastIndexedBlock(db);
+  const from = last === null ? (options.startBlock ?? ETHSCRIPTIONS_START_BLOCK) : last + 1;
+  const to = options.toBlock ?? (await source.getBlockNumber());
+
+  let indexed = 0;
+  let reorgs = 0;
+
+  for (let blockNumber = from; blockNumber <= to; blockNumber += 1) {
+    // eslint-disable-next-line no-await-in-loop
+    const block = await source.getBlock(blockNumber);
+
+    if (!block) {
+      break;
+    }
+
+    // eslint-disable-next-line no-await-in-loop
+    const parent = await getIndexedBlock(db, blockNumber - 1);
+
+    if (parent && parent.block_blockhash !== block.parent_hash) {
+      // eslint-disable-next-line no-await-in-loop
+      const ancestor = await findCommonAncestor(db, source, blockNumber - 1);
+      // eslint-disable-next-line no-await-in-loop
+      const rolledBack = await rollbackToBlock(db, ancestor, options.protocols);
+      // eslint-disable-next-line no-await-in-loop
+      await options.onReorg?.({ ancestor, detected_at: blockNumber, ...rolledBack });
+
+      reorgs += 1;
+      // continue with the block right after the ancestor, on the canonical branch
+      blockNumber = ancestor;
+    } else {
+      // eslint-disable-next-line no-await-in-loop
+      await ingestBlock(db, block, options);
+      // eslint-disable-next-line no-await-in-loop
+      await options.onBlock?.(block);
+
+      indexed += 1;
+    }
+  }
+
+  return { from, to, indexed, reorgs };
+}
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { asc, eq, gte } from 'drizzle-orm';
+import { concatHex, stringToHex } from 'viem';
+
+import { ethscriptions, transactions, transfers } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from './constants.ts';
+import {
+  createBlockSource,
+  createFixtureTransport,
+  numberEthscriptions,
+  runIndexer,
+  type IndexerReorg,
+  type RpcFixture,
+} from './index.ts';
+import { createFixtureBlock, createTestDatabase } from './testing.ts';
+
+const START = ESIP_5_START_BLOCK + 1000;
+const alice = `0x${'a'.repeat(40)}` as const;
+const bob = `0x${'b'.repeat(40)}` as const;
+const carol = `0x${'c'.repeat(40)}` as const;
+
+const create = (from: typeof alice, to: typeof alice, content: string) => ({
+  from,
+  to,
+  input: stringToHex(`data:,${content}`),
+});
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+function index(fixture: RpcFixture, onReorg?: (reorg: IndexerReorg) => void) {
+  return runIndexer({
+    db: ctx.db,
+    storage: ctx.storage,
+    source: createBlockSource(createFixtureTransport(fixture)),
+    startBlock: Number(fixture.blocks[0].number),
+    onReorg,
+  });
+}
+
+function getEthscriptions() {
+  return ctx.db
+    .select({
+      id: ethscriptions.id,
+      number: ethscriptions.number,
+      current_owner: ethscriptions.current_owner,
+      previous_owner: ethscriptions.previous_owner,
+    })
+    .from(ethscriptions)
+    .orderBy(asc(ethscriptions.block_number), asc(ethscriptions.transaction_index));
+}
+
+describe('indexer', () => {
+  test('indexes creations and transfers, numbered in creation order', async () => {
+    const first = createFixtureBlock(START, [
+      create(alice, bob, 'one'),
+      create(alice, carol, 'two'),
+      // the same content again is not an ethscription without ESIP-6
+      create(carol, carol, 'one'),
+    ]);
+    const [one, two] = first.transactions.map((tx) => tx.hash);
+    const second = createFixtureBlock(START + 1, [{ from: bob, to: carol, input: one }]);
+
+    const result = await index({ blocks: [first, second] });
+
+    expect(result).toMatchObject({ from: START, to: START + 1, indexed: 2, reorgs: 0 });
+    expect(await getEthscriptions()).toEqual([
+      { id: one, number: 1, current_owner: carol, previous_owner: bob },
+      { id: two, number: 2, current_owner: carol, previous_owner: alice },
+    ]);
+  });
+
+  test('keeps the truncated calldata of the creations and of the transfers', async () => {
+    const long = 'x'.repeat(2000);
+    const first = createFixtureBlock(START, [create(alice, alice, long)]);
+    const [id] = first.transactions.map((tx) => tx.hash);
+    const second = createFixtureBlock(START + 1, [{ from: alice, to: bob, input: id }]);
+
+    await index({ blocks: [first, second] });
+
+    const rows = await ctx.db
+      .select({
+        is_transfer: transactions.is_transfer,
+        truncated_data: transactions.truncated_data,
+        truncated_data_raw: transactions.truncated_data_raw,
+      })
+      .from(transactions)
+      .orderBy(asc(transactions.block_number));
+
+    expect(rows).toEqual([
+      {
+        is_transfer: false,
+        truncated_data: `data:,${long}`.slice(0, 1024),
+        truncated_data_raw: stringToHex(`data:,${long}`.slice(0, 1024)),
+      },
+      { is_transfer: true, truncated_data: expect.any(String), truncated_data_raw: id },
+    ]);
+  });
+
+  test('skips the ids of an ESIP-5 bulk transfer the sender does not own, and transfers the rest', async () => {
+    const first = createFixtureBlock(START, [
+      create(alice, alice, 'a'),
+      create(alice, alice, 'b'),
+      create(bob, bob, 'c'),
+    ]);
+    const [a, b, c] = first.transactions.map((tx) => tx.hash);
+    // `c` is not alice's, and `a` is not hers anymore the second time
+    const second = createFixtureBlock(START + 1, [
+      { from: alice, to: carol, input: concatHex([a, c, a, b]) },
+    ]);
+
+    await index({ blocks: [first, second] });
+
+    const owners = await getEthscriptions();
+    const bulk = await ctx.db
+      .select({ id: transfers.ethscription_id, bulk_index: transfers.bulk_index })
+      .from(transfers)
+      .where(eq(transfers.block_number, START + 1))
+      .orderBy(asc(transfers.bulk_index));
+
+    expect(owners.map((x) => x.current_owner)).toEqual([carol, carol, bob]);
+    expect(bulk).toEqual([
+      { id: a, bulk_index: 0 },
+      { id: b, bulk_index: 3 },
+    ]);
+  });
+
+  test('ignores bulk transfers before ESIP-5', async () => {
+    const first = createFixtureBlock(ESIP_5_START_BLOCK - 2, [
+      create(alice, alice, 'a'),
+      create(alice, alice, 'b'),
+    ]);
+    const [a, b] = first.transactions.map((tx) => tx.hash);
+    const second = createFixtureBlock(ESIP_5_START_BLOCK - 1, [
+      { from: alice, to: carol, input: concatHex([a, b]) },
+    ]);
+
+    await index({ blocks: [first, second] });
+
+    const owners = await getEthscriptions();
+
+    expect(owners.map((x) => x.current_owner)).toEqual([alice, alice]);
+  });
+
+  test('rolls back the orphaned blocks on a reorg, and continues on the canonical branch', async () => {
+    const first = createFixtureBlock(START, [create(alice, bob, 'one')]);
+    const [one] = first.transactions.map((tx) => tx.hash);
+    const second = createFixtureBlock(START + 1, [create(alice, alice, 'two')]);
+    const orphaned = createFixtureBlock(START + 2, [
+      { from: bob, to: carol, input: one },
+      create(alice, alice, 'orphan'),
+    ]);
+
+    await index({ blocks: [first, second, orphaned] });
+
+    // the third block is replaced by another one, and the chain goes on from it
+    const canonical = [
+      createFixtureBlock(START + 2, [create(carol, carol, 'three')], {
+        fork: 'b',
+        parentFork: '',
+      }),
+      createFixtureBlock(START + 3, [], { fork: 'b' }),
+    ];
+    const reorgs: IndexerReorg[] = [];
+    const result = await index({ blocks: [first, second, ...canonical] }, (reorg) => {
+      reorgs.push(reorg);
+    });
+
+    const [orphan] = orphaned.transactions.slice(1).map((tx) => tx.hash);
+    const [three] = canonical[0].transactions.map((tx) => tx.hash);
+
+    expect(result).toMatchObject({ reorgs: 1 });
+    expect(reorgs).toEqual([
+      { ancestor: START + 1, detected_at: START + 3, removed: [orphan], restored: [one] },
+    ]);
+    expect(await getEthscriptions()).toEqual([
+      { id: one, number: 1, current_owner: bob, previous_owner: alice },
+      expect.objectContaining({ number: 2 }),
+      { id: three, number: 3, current_owner: carol, previous_owner: carol },
+    ]);
+  });
+
+  test('renumbers from a block on, continuing after the numbers before it', async () => {
+    const blocks = [
+      createFixtureBlock(START, [create(alice, alice, 'one'), create(alice, alice, 'two')]),
+      createFixtureBlock(START + 1, [create(alice, alice, 'three')]),
+      createFixtureBlock(START + 2, [create(alice, alice, 'four')]),
+    ];
+
+    await index({ blocks });
+    await ctx.db
+      .update(ethscriptions)
+      .set({ number: null })
+      .where(gte(ethscriptions.block_number, START));
+    await ctx.db
+      .update(ethscriptions)
+      .set({ number: 1 })
+      .where(eq(ethscriptions.id, blocks[0].transactions[0].hash));
+    await ctx.db
+      .update(ethscriptions)
+      .set({ number: 7 })
+      .where(eq(ethscriptions.id, blocks[0].transactions[1].hash));
+
+    await ctx.db.transaction((tx) => numberEthscriptions(tx, START + 1));
+    expect((await getEthscriptions()).map((x) => x.number)).toEqual([1, 7, 8, 9]);
+
+    await ctx.db.transaction((tx) => numberEthscriptions(tx));
+    expect((await getEthscriptions()).map((x) => x.number)).toEqual([1, 2, 3, 4]);
+  });
+});
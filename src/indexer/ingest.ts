@@ -0,0 +1,364 @@
+import { eq, sql } from 'drizzle-orm';
+import { stringToHex } from 'viem';
+
+import { decodeDataUriContent, getContentSha, storeDataUriContent } from '@/content/index.ts';
+import { blocks, ethscriptions, transactions, transfers } from '@/db/schema/index.ts';
+import { getProtocolContent, protocols, type ProtocolRegistry } from '@/protocols/index.ts';
+import { getStorage, type StorageAdapter } from '@/storage/index.ts';
+import { storeAttachment } from './attachments.ts';
+import {
+  decodeAttachment,
+  decodeCalldata,
+  decodeCreateEthscriptionLog,
+  decodeTransferEthscriptionLog,
+  truncateCalldata,
+  type DecodedCreation,
+} from './decode.ts';
+import { numberEthscriptions } from './numbering.ts';
+import type { Database, DbClient, Hex, IndexerBlock, IndexerTransaction } from './types.ts';
+
+export type CreationInput = DecodedCreation & {
+  creator: Hex;
+  initial_owner: Hex;
+  event_log_index: number | null;
+  is_esip3: boolean;
+};
+
+export type IngestContext = {
+  // where contents and ESIP-8 attachments are kept
+  storage: StorageAdapter;
+  // the meta protocols newly created ethscriptions are parsed with
+  protocols: ProtocolRegistry;
+};
+
+export type TransferInput = {
+  id: Hex;
+  from: Hex;
+  to: Hex;
+  event_log_index: number | null;
+  is_esip1?: boolean;
+  is_esip2?: boolean;
+  enforced_previous_owner?: Hex | null;
+  bulk_index?: number | null;
+};
+
+// The whole block is written in a single DB transaction, so a crash in the middle
+// never leaves a half-indexed block behind, and the indexer can safely resume from the last one
+export async function ingestBlock(
+  db: Database,
+  block: IndexerBlock,
+  options: Partial<IngestContext> = {},
+) {
+  const context = {
+    storage: options.storage || getStorage(),
+    protocols: options.protocols || protocols,
+  };
+
+  await db.transaction(async (tx) => {
+    for (const transaction of block.transactions) {
+      // eslint-disable-next-line no-await-in-loop
+      await ingestTransaction(tx, block, transaction, context);
+    }
+
+    await numberEthscriptions(tx, block.number);
+
+    await tx.insert(blocks).values({
+      block_number: block.number,
+      block_blockhash: block.hash,
+      parent_blockhash: block.parent_hash,
+      block_timestamp: block.timestamp,
+    });
+  });
+}
+
+export async function ingestTransaction(
+  tx: DbClient,
+  block: IndexerBlock,
+  transaction: IndexerTransaction,
+  context: IngestContext,
+) {
+  // reverted transactions are never ethscriptions, nor transfers
+  if (!transaction.status) {
+    return;
+  }
+
+  const decoded = decodeCalldata(transaction.input, block.number);
+  let created = false;
+
+  // contract creation transactions (without `to`) cannot have an initial owner
+  if (decoded?.type === 'create' && transaction.to) {
+    const creation = {
+      ...decoded,
+      creator: transaction.from,
+      initial_owner: transaction.to,
+      event_log_index: null,
+      is_esip3: false,
+    };
+
+    created = await createEthscription(tx, block, transaction, creation);
+
+    if (created) {
+      await onCreated(tx, context, { ...creation, id: transaction.hash, block, transaction });
+    }
+
+    // ESIP-8: only calldata creations can have an attachment, carried in the transaction blobs
+    const attachment =
+      created && transaction.blobs ? decodeAttachment(transaction.blobs, block.number) : null;
+
+    if (attachment) {
+      await storeAttachment(tx, context.storage, transaction.hash, attachment);
+    }
+  }
+
+  if (decoded?.type === 'transfer' && transaction.to) {
+    const isBulk = decoded.ids.length > 1;
+
+    // ids are transferred one by one in calldata order, the ones the sender does not own
+    // at that point (including repeated ids) are just skipped, the rest still go through
+    for (const [idx, id] of decoded.ids.entries()) {
+      const input = {
+        id,
+        from: transaction.from,
+        to: transaction.to,
+        event_log_index: null,
+        bulk_index: isBulk ? idx : null,
+      };
+
+      // eslint-disable-next-line no-await-in-loop
+      if (await transferEthscription(tx, block, transaction, input)) {
+        // eslint-disable-next-line no-await-in-loop
+        await onTransferred(tx, context, { ...input, block, transaction });
+      }
+    }
+  }
+
+  for (const log of transaction.logs) {
+    // ESIP-3: creation through contract events, only one ethscription per transaction
+    const creation = created ? null : decodeCreateEthscriptionLog(log, block.number);
+    const transfer = decodeTransferEthscriptionLog(log, block.number);
+
+    if (creation) {
+      const input = {
+        ...creation,
+        creator: log.address,
+        event_log_index: log.log_index,
+        is_esip3: true,
+      };
+
+      // eslint-disable-next-line no-await-in-loop
+      created = await createEthscription(tx, block, transaction, input);
+
+      if (created) {
+        // eslint-disable-next-line no-await-in-loop
+        await onCreated(tx, context, { ...input, id: transaction.hash, block, transaction });
+      }
+    } else if (transfer) {
+      const input = { ...transfer, event_log_index: log.log_index };
+
+      // eslint-disable-next-line no-await-in-loop
+      if (await transferEthscription(tx, block, transaction, input)) {
+        // eslint-disable-next-line no-await-in-loop
+        await onTransferred(tx, context, { ...input, block, transaction });
+      }
+    }
+  }
+}
+
+export async function createEthscription(
+  tx: DbClient,
+  block: IndexerBlock,
+  transaction: IndexerTransaction,
+  input: CreationInput,
+) {
+  const { parsed } = input;
+  const contentSha = await getContentSha(input.uri);
+
+  // ESIP-7: a gzipped payload that cannot be decompressed is not a valid ethscription
+  if (!contentSha) {
+    return false;
+  }
+
+  // ESIP-6: duplicate content is valid only when it's explicitly opted in with `rule=esip6`
+  if (!parsed.is_esip6) {
+    const [existing] = await tx
+      .select({ id: ethscriptions.id })
+      .from(ethscriptions)
+      .where(eq(ethscriptions.content_sha, contentSha))
+      .limit(1);
+
+    if (existing) {
+      return false;
+    }
+  }
+
+  await insertTransaction(tx, block, transaction, { is_transfer: false, uri: input.uri });
+
+  await tx.insert(ethscriptions).values({
+    id: transaction.hash,
+    block_number: block.number,
+    block_timestamp: block.timestamp,
+    transaction_index: transaction.index,
+
+    media_type: parsed.media_type,
+    media_subtype: parsed.media_subtype,
+    content_type: parsed.mimetype,
+    content_sha: contentSha,
+
+    is_esip0: !input.is_esip3,
+    is_esip3: input.is_esip3,
+    is_esip4: parsed.mimetype.includes('vnd.facet.tx+json'),
+    is_esip6: parsed.is_esip6,
+    is_esip8: false,
+
+    creator: input.creator,
+    initial_owner: input.initial_owner,
+    current_owner: input.initial_owner,
+    previous_owner: input.creator,
+  });
+
+  // the creation itself is the first transfer, from the creator to the initial owner
+  await tx.insert(transfers).values({
+    transaction_hash: transaction.hash,
+    ethscription_id: transaction.hash,
+    event_log_index: input.event_log_index,
+    block_blockhash: block.hash,
+    block_number: block.number,
+    block_timestamp: block.timestamp,
+    transaction_index: transaction.index,
+    from_address: input.creator,
+    to_address: input.initial_owner,
+  });
+
+  return true;
+}
+
+export async function transferEthscription(
+  tx: DbClient,
+  block: IndexerBlock,
+  transaction: IndexerTransaction,
+  input: TransferInput,
+) {
+  const [ethscription] = await tx
+    .select({
+      current_owner: ethscriptions.current_owner,
+      previous_owner: ethscriptions.previous_owner,
+    })
+    .from(ethscriptions)
+    .where(eq(ethscriptions.id, input.id));
+
+  // only the current owner can transfer it
+  if (!ethscription || ethscription.current_owner !== input.from) {
+    return false;
+  }
+
+  // ESIP-2: the transfer is valid only if the previous owner is the one the sender expects
+  if (input.is_esip2 && ethscription.previous_owner !== input.enforced_previous_owner) {
+    return false;
+  }
+
+  await insertTransaction(tx, block, transaction, { is_transfer: true });
+
+  await tx.insert(transfers).values({
+    transaction_hash: transaction.hash,
+    ethscription_id: input.id,
+    event_log_index: input.event_log_index,
+    block_blockhash: block.hash,
+    block_number: block.number,
+    block_timestamp: block.timestamp,
+    transaction_index: transaction.index,
+    from_address: input.from,
+    to_address: input.to,
+    is_esip1: Boolean(input.is_esip1),
+    is_esip2: Boolean(input.is_esip2),
+    enforced_previous_owner: input.enforced_previous_owner ?? null,
+    is_esip5: typeof input.bulk_index === 'number',
+    bulk_index: input.bulk_index ?? null,
+  });
+
+  await tx
+    .update(ethscriptions)
+    .set({
+      previous_owner: input.from,
+      current_owner: input.to,
+      updated_at: sql`(unixepoch())`,
+    })
+    .where(eq(ethscriptions.id, input.id));
+
+  return true;
+}
+
+type IngestedEvent = { block: IndexerBlock; transaction: IndexerTransaction };
+
+// Stores the content of a newly created ethscription, and parses its meta protocol (if any) from the whole content,
+// with the data URI truncated as in `transactions.truncated_data`, so that re-parsing later gives the same result
+async function onCreated(
+  tx: DbClient,
+  context: IngestContext,
+  input: CreationInput & IngestedEvent & { id: Hex },
+) {
+  await storeDataUriContent(context.storage, input.uri);
+
+  const decoded = await decodeDataUriContent(input.uri);
+  const content = await getProtocolContent(
+    truncateCalldata(stringToHex(input.uri)).truncated_data,
+    decoded?.bytes,
+  );
+
+  if (content) {
+    await context.protocols.process(tx, {
+      id: input.id,
+      block_number: input.block.number,
+      block_timestamp: input.block.timestamp,
+      transaction_index: input.transaction.index,
+      creator: input.creator,
+      initial_owner: input.initial_owner,
+      ...content,
+    });
+  }
+}
+
+async function onTransferred(
+  tx: DbClient,
+  context: IngestContext,
+  input: TransferInput & IngestedEvent,
+) {
+  await context.protocols.transfer(tx, {
+    id: input.id,
+    from: input.from,
+    to: input.to,
+    block_number: input.block.number,
+    transaction_index: input.transaction.index,
+    event_log_index: input.event_log_index,
+  });
+}
+
+async function insertTransaction(
+  tx: DbClient,
+  block: IndexerBlock,
+  transaction: IndexerTransaction,
+  options: { is_transfer: boolean; uri?: string },
+) {
+  // the content of a creation (the calldata, or the event data of ESIP-3 ones), and the calldata of anything else,
+  // the ids of a transfer, or the contract call of an ESIP-1/2 one
+  const truncated = truncateCalldata(options.uri ? stringToHex(options.uri) : transaction.input);
+
+  await tx
+    .insert(transactions)
+    .values({
+      block_number: block.number,
+      block_blockhash: block.hash,
+      block_timestamp: block.timestamp,
+      transaction_type: transaction.type,
+      transaction_hash: transaction.hash,
+      transaction_index: transaction.index,
+      transaction_value: String(transaction.value),
+      transaction_fee: transaction.gas_used * transaction.gas_price,
+      gas_price: String(transaction.gas_price),
+      gas_used: String(transaction.gas_used),
+      from_address: transaction.from,
+      to_address: transaction.to || '',
+      is_transfer: options.is_transfer,
+      ...truncated,
+    })
+    .onConflictDoNothing();
+}
@@ -0,0 +1,32 @@
+import { gte, isNull, max, sql } from 'drizzle-orm';
+
+import { ethscriptions } from '@/db/schema/index.ts';
+import type { DbClient } from './types.ts';
+
+// Ethscription numbers are global 1-based sequence numbers, in the order ethscriptions were created,
+// by `(block_number, transaction_index)`. Everything from `fromBlock` on is (re)numbered, continuing
+// right after the last number before it, so it's cheap per block and a full renumber with `fromBlock = 0`
+export async function numberEthscriptions(tx: DbClient, fromBlock = 0) {
+  // cleared first, so that renumbering never collides with the unique index on `number`
+  await tx
+    .update(ethscriptions)
+    .set({ number: null })
+    .where(gte(ethscriptions.block_number, fromBlock));
+
+  const [{ last }] = await tx.select({ last: max(ethscriptions.number) }).from(ethscriptions);
+
+  const numbered = tx
+    .select({
+      id: ethscriptions.id,
+      num: sql<number>`${last ?? 0} + ROW_NUMBER() OVER (ORDER BY ${ethscriptions.block_number}, ${ethscriptions.transaction_index}, ${ethscriptions.id})`.as(
+        'num',
+      ),
+    })
+    .from(ethscriptions)
+    .where(isNull(ethscriptions.number))
+    .as('numbered');
+
+  await tx.run(
+    sql`UPDATE ${ethscriptions} SET number = ${numbered.num} FROM ${numbered} WHERE ${ethscriptions.id} = ${numbered.id}`,
+  );
+}
@@ -0,0 +1,29 @@
+import { inArray, sql } from 'drizzle-orm';
+
+import { ethscriptions, transfers } from '@/db/schema/index.ts';
+import type { DbClient } from './types.ts';
+
+// Latest transfer first. Calldata transfers (without event log index) come before the event ones
+// in the same transaction, and since SQLite puts NULLs last on DESC, the order is kept as is
+export const TRANSFERS_ORDER_DESC = sql`${transfers.block_number} DESC, ${transfers.transaction_index} DESC, ${transfers.event_log_index} DESC, ${transfers.bulk_index} DESC, ${transfers.index} DESC`;
+
+// Sets `current_owner` and `previous_owner` from the latest remaining transfer of each ethscription.
+// The creation is always the first transfer (creator -> initial owner), so when nothing else is left
+// the ethscription ends up exactly as it was right after its creation
+export async function recomputeOwners(tx: DbClient, ids: string[]) {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const latest = (column: typeof transfers.to_address | typeof transfers.from_address) =>
+    sql`(SELECT ${column} FROM ${transfers} WHERE ${transfers.ethscription_id} = ${ethscriptions.id} ORDER BY ${TRANSFERS_ORDER_DESC} LIMIT 1)`;
+
+  await tx
+    .update(ethscriptions)
+    .set({
+      current_owner: latest(transfers.to_address),
+      previous_owner: latest(transfers.from_address),
+      updated_at: sql`(unixepoch())`,
+    })
+    .where(inArray(ethscriptions.id, ids));
+}
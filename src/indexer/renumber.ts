@@ -0,0 +1,22 @@
+/* eslint-disable unicorn/no-process-exit */
+/* eslint-disable unicorn/prefer-top-level-await */
+/* eslint-disable promise/prefer-await-to-callbacks */
+
+// bun run indexer:renumber
+// INDEXER_RENUMBER_FROM_BLOCK=19000000 bun run indexer:renumber
+
+import { db } from '@/db/index.ts';
+import { numberEthscriptions } from './index.ts';
+
+async function main() {
+  const fromBlock = Number(process.env.INDEXER_RENUMBER_FROM_BLOCK || 0);
+
+  await db.transaction((tx) => numberEthscriptions(tx, fromBlock));
+
+  console.log(`Renumbering completed, from block ${fromBlock}`);
+}
+
+main().catch((err) => {
+  console.error('Error during renumbering:', err);
+  process.exit(1);
+});
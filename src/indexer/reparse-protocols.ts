@@ -0,0 +1,22 @@
+/* eslint-disable unicorn/no-process-exit */
+/* eslint-disable unicorn/prefer-top-level-await */
+/* eslint-disable promise/prefer-await-to-callbacks */
+
+// bun run indexer:protocols
+// INDEXER_PROTOCOLS_FROM_BLOCK=19000000 bun run indexer:protocols
+
+import { db } from '@/db/index.ts';
+import { protocols, reparseProtocols } from '@/protocols/index.ts';
+
+async function main() {
+  const fromBlock = Number(process.env.INDEXER_PROTOCOLS_FROM_BLOCK || 0);
+
+  const { claimed } = await db.transaction((tx) => reparseProtocols(tx, protocols, fromBlock));
+
+  console.log(`Protocols re-parsed from block ${fromBlock}, ${claimed} ethscriptions claimed`);
+}
+
+main().catch((err) => {
+  console.error('Error during protocols re-parsing:', err);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+import { and, eq, gt, inArray, notInArray, or } from 'drizzle-orm';
+
+import {
+  attachments,
+  blocks,
+  collectionItems,
+  ethscriptions,
+  transactions,
+  transfers,
+  votes,
+} from '@/db/schema/index.ts';
+import { protocols, type ProtocolRegistry } from '@/protocols/index.ts';
+import { MAX_REORG_DEPTH } from './constants.ts';
+import { recomputeOwners } from './ownership.ts';
+import type { BlockSource, Database, DbClient } from './types.ts';
+
+export async function getIndexedBlock(db: DbClient, blockNumber: number) {
+  const [block] = await db.select().from(blocks).where(eq(blocks.block_number, blockNumber));
+
+  return block || null;
+}
+
+// Walks back from `blockNumber` until the stored block hash matches the canonical one,
+// returns the number of the last block both chains agree on
+export async function findCommonAncestor(db: DbClient, source: BlockSource, blockNumber: number) {
+  for (let num = blockNumber; num > blockNumber - MAX_REORG_DEPTH; num -= 1) {
+    // eslint-disable-next-line no-await-in-loop
+    const stored = await getIndexedBlock(db, num);
+
+    // went below the first indexed block, everything above it is orphaned
+    if (!stored) {
+      return num;
+    }
+
+    // eslint-disable-next-line no-await-in-loop
+    const canonical = await source.getBlockHeader(num);
+
+    if (canonical && canonical.hash === stored.block_blockhash) {
+      return num;
+    }
+  }
+
+  throw new Error(
+    `Chain reorg deeper than ${MAX_REORG_DEPTH} blocks detected at block ${blockNumber}`,
+  );
+}
+
+// Removes everything that happened after `blockNumber`: created ethscriptions, their attachments and meta protocol data,
+// transfers, votes and transactions, then restores the ownership of the ones transferred in the orphaned blocks.
+// Numbers need no fixing, the removed ethscriptions are always the last ones, so the rest stay contiguous
+export async function rollbackToBlock(
+  db: Database,
+  blockNumber: number,
+  registry: ProtocolRegistry = protocols,
+) {
+  return db.transaction(async (tx) => {
+    await registry.rollback(tx, blockNumber);
+
+    const orphaned = tx
+      .select({ id: ethscriptions.id })
+      .from(ethscriptions)
+      .where(gt(ethscriptions.block_number, blockNumber));
+
+    const orphanedTxs = tx
+      .select({ hash: transactions.transaction_hash })
+      .from(transactions)
+      .where(gt(transactions.block_number, blockNumber));
+
+    const transferred = await tx
+      .selectDistinct({ id: transfers.ethscription_id })
+      .from(transfers)
+      .where(
+        and(
+          gt(transfers.block_number, blockNumber),
+          notInArray(transfers.ethscription_id, orphaned),
+        ),
+      );
+
+    await tx
+      .delete(votes)
+      .where(
+        or(inArray(votes.ethscription_id, orphaned), inArray(votes.transaction_hash, orphanedTxs)),
+      );
+
+    await tx
+      .delete(transfers)
+      .where(
+        or(gt(transfers.block_number, blockNumber), inArray(transfers.ethscription_id, orphaned)),
+      );
+
+    await tx.delete(attachments).where(inArray(attachments.ethscription_id, orphaned));
+    await tx.delete(collectionItems).where(inArray(collectionItems.ethscription_id, orphaned));
+
+    const removed = await tx
+      .delete(ethscriptions)
+      .where(gt(ethscriptions.block_number, blockNumber))
+      .returning({ id: ethscriptions.id });
+
+    await tx.delete(transactions).where(gt(transactions.block_number, blockNumber));
+    await tx.delete(blocks).where(gt(blocks.block_number, blockNumber));
+
+    const owners = transferred.map((x) => x.id);
+    await recomputeOwners(tx, owners);
+
+    return { removed: removed.map((x) => x.id), restored: owners };
+  });
+}
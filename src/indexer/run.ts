@@ -0,0 +1,62 @@
+/* eslint-disable unicorn/no-process-exit */
+/* eslint-disable unicorn/prefer-top-level-await */
+/* eslint-disable promise/prefer-await-to-callbacks */
+
+// INDEXER_RPC_URL=https://eth.llamarpc.com bun run indexer
+// INDEXER_RPC_URL=https://eth.llamarpc.com INDEXER_BEACON_URL=http://localhost:5052 bun run indexer
+// INDEXER_FIXTURE=./fixtures/blocks.json bun run indexer
+
+import { readFile } from 'node:fs/promises';
+
+import { db } from '@/db/index.ts';
+import {
+  createBeaconBlobFetcher,
+  createBlockSource,
+  createFixtureBlobFetcher,
+  createFixtureTransport,
+  createHttpTransport,
+  runIndexer,
+} from './index.ts';
+
+async function main() {
+  const fixture = process.env.INDEXER_FIXTURE
+    ? JSON.parse(await readFile(process.env.INDEXER_FIXTURE, 'utf8'))
+    : null;
+
+  const transport = fixture
+    ? createFixtureTransport(fixture)
+    : createHttpTransport(process.env.INDEXER_RPC_URL || 'http://localhost:8545');
+
+  // without a beacon node ESIP-8 attachments are just not indexed
+  const getBlobs = fixture
+    ? createFixtureBlobFetcher(fixture)
+    : process.env.INDEXER_BEACON_URL
+      ? createBeaconBlobFetcher(process.env.INDEXER_BEACON_URL)
+      : undefined;
+
+  const result = await runIndexer({
+    db,
+    source: createBlockSource(transport, { getBlobs }),
+    startBlock: process.env.INDEXER_START_BLOCK
+      ? Number(process.env.INDEXER_START_BLOCK)
+      : undefined,
+    toBlock: process.env.INDEXER_TO_BLOCK ? Number(process.env.INDEXER_TO_BLOCK) : undefined,
+    onBlock: (block) => {
+      console.log(`Indexed block ${block.number} (${block.transactions.length} transactions)`);
+    },
+    onReorg: (reorg) => {
+      console.log(
+        `Reorg detected at block ${reorg.detected_at}, rolled back to block ${reorg.ancestor}`,
+      );
+    },
+  });
+
+  console.log(
+    `Indexing completed, ${result.indexed} blocks from ${result.from} to ${result.to} (${result.reorgs} reorgs)`,
+  );
+}
+
+main().catch((err) => {
+  console.error('Error during indexing:', err);
+  process.exit(1);
+});
@@ -0,0 +1,227 @@
+import { commitmentToVersionedHash } from 'viem';
+
+import { BEACON_GENESIS_TIME, BEACON_SECONDS_PER_SLOT } from './constants.ts';
+import type {
+  BlobFetcher,
+  BlockSource,
+  Hex,
+  IndexerBlock,
+  RpcBlock,
+  RpcFixture,
+  RpcReceipt,
+  RpcTransport,
+} from './types.ts';
+
+export function createHttpTransport(
+  url: string,
+  options?: { fetcher?: typeof fetch; headers?: Record<string, string> },
+): RpcTransport {
+  const opts = { fetcher: fetch, ...options };
+  let id = 0;
+
+  return async (method, params) => {
+    id += 1;
+
+    const resp = await opts.fetcher(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...opts.headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+    });
+
+    if (!resp.ok) {
+      throw new Error(`JSON-RPC request ${method} failed: ${resp.status} ${resp.statusText}`);
+    }
+
+    const data: any = await resp.json();
+
+    if (data.error) {
+      throw new Error(`JSON-RPC request ${method} failed: ${data.error.message}`);
+    }
+
+    return data.result;
+  };
+}
+
+// Answers the handful of JSON-RPC methods the indexer uses from an in-memory list of blocks,
+// so that the ingestion can be run against local fixtures without any network
+export function createFixtureTransport(fixture: RpcFixture): RpcTransport {
+  const findBlock = (blockNumber: Hex) =>
+    fixture.blocks.find((block) => BigInt(block.number) === BigInt(blockNumber));
+
+  return async (method, params) => {
+    switch (method) {
+      case 'eth_blockNumber': {
+        const last = fixture.blocks.reduce((acc, x) => Math.max(acc, Number(x.number)), 0);
+        return `0x${last.toString(16)}`;
+      }
+      case 'eth_getBlockByNumber': {
+        const block = findBlock(params[0] as Hex);
+
+        if (!block) {
+          return null;
+        }
+
+        const { receipts: _, ...rest } = block;
+        return rest;
+      }
+      case 'eth_getBlockReceipts': {
+        const block = findBlock(params[0] as Hex);
+
+        if (!block) {
+          return null;
+        }
+
+        return (
+          block.receipts ||
+          block.transactions.map((tx) => ({
+            transactionHash: tx.hash,
+            transactionIndex: tx.transactionIndex,
+            status: '0x1',
+            gasUsed: '0x5208',
+            effectiveGasPrice: tx.gasPrice || '0x0',
+            logs: [],
+          }))
+        );
+      }
+      default: {
+        throw new Error(`JSON-RPC method ${method} is not supported by the fixture transport`);
+      }
+    }
+  };
+}
+
+// Blobs are not available through the JSON-RPC, they live on the consensus layer,
+// so they are fetched from a beacon node by the slot of the block they were included in
+export function createBeaconBlobFetcher(
+  url: string,
+  options?: { fetcher?: typeof fetch; genesisTime?: number; secondsPerSlot?: number },
+): BlobFetcher {
+  const opts = {
+    fetcher: fetch,
+    genesisTime: BEACON_GENESIS_TIME,
+    secondsPerSlot: BEACON_SECONDS_PER_SLOT,
+    ...options,
+  };
+
+  return async (block, versionedHashes) => {
+    const slot = Math.floor((block.timestamp - opts.genesisTime) / opts.secondsPerSlot);
+    const resp = await opts.fetcher(`${url}/eth/v1/beacon/blob_sidecars/${slot}`);
+
+    // pruned, or not available on this beacon node
+    if (resp.status === 404) {
+      return null;
+    }
+    if (!resp.ok) {
+      throw new Error(`Beacon request for blobs of slot ${slot} failed: ${resp.status}`);
+    }
+
+    const { data }: { data: { blob: Hex; kzg_commitment: Hex }[] } = await resp.json();
+    const byHash = new Map(
+      data.map((x) => [commitmentToVersionedHash({ commitment: x.kzg_commitment }), x.blob]),
+    );
+    const blobs = versionedHashes.map((hash) => byHash.get(hash));
+
+    return blobs.every(Boolean) ? (blobs as Hex[]) : null;
+  };
+}
+
+export function createFixtureBlobFetcher(fixture: RpcFixture): BlobFetcher {
+  return async (_block, versionedHashes) => {
+    const blobs = versionedHashes.map((hash) => fixture.blobs?.[hash]);
+
+    return blobs.every(Boolean) ? (blobs as Hex[]) : null;
+  };
+}
+
+export function createBlockSource(
+  transport: RpcTransport,
+  options?: { getBlobs?: BlobFetcher },
+): BlockSource {
+  return {
+    async getBlockNumber() {
+      return Number(await transport('eth_blockNumber', []));
+    },
+    async getBlockHeader(blockNumber: number) {
+      const tag = `0x${blockNumber.toString(16)}`;
+      const block: RpcBlock | null = await transport('eth_getBlockByNumber', [tag, false]);
+
+      if (!block) {
+        return null;
+      }
+
+      return {
+        number: Number(block.number),
+        hash: block.hash.toLowerCase() as Hex,
+        parent_hash: block.parentHash.toLowerCase() as Hex,
+        timestamp: Number(block.timestamp),
+      };
+    },
+    async getBlock(blockNumber: number) {
+      const tag = `0x${blockNumber.toString(16)}`;
+      const block: RpcBlock | null = await transport('eth_getBlockByNumber', [tag, true]);
+
+      if (!block) {
+        return null;
+      }
+
+      const receipts: RpcReceipt[] =
+        block.transactions.length > 0 ? await transport('eth_getBlockReceipts', [tag]) : [];
+
+      const normalized = normalizeBlock(block, receipts || []);
+
+      if (options?.getBlobs) {
+        for (const tx of normalized.transactions) {
+          if (tx.status && tx.blob_versioned_hashes.length > 0) {
+            // eslint-disable-next-line no-await-in-loop
+            tx.blobs = (await options.getBlobs(normalized, tx.blob_versioned_hashes)) || undefined;
+          }
+        }
+      }
+
+      return normalized;
+    },
+  };
+}
+
+export function normalizeBlock(block: RpcBlock, receipts: RpcReceipt[]): IndexerBlock {
+  const receiptsByHash = new Map(receipts.map((x) => [x.transactionHash.toLowerCase(), x]));
+
+  return {
+    number: Number(block.number),
+    hash: block.hash.toLowerCase() as Hex,
+    parent_hash: block.parentHash.toLowerCase() as Hex,
+    timestamp: Number(block.timestamp),
+    transactions: block.transactions
+      .map((tx) => {
+        const hash = tx.hash.toLowerCase() as Hex;
+        const receipt = receiptsByHash.get(hash);
+
+        if (!receipt) {
+          throw new Error(`Missing receipt for transaction ${hash} in block ${block.number}`);
+        }
+
+        return {
+          hash,
+          index: Number(tx.transactionIndex),
+          type: Number(tx.type || '0x0'),
+          from: tx.from.toLowerCase() as Hex,
+          to: tx.to ? (tx.to.toLowerCase() as Hex) : null,
+          input: (tx.input || '0x').toLowerCase() as Hex,
+          value: BigInt(tx.value || '0x0'),
+          gas_price: BigInt(receipt.effectiveGasPrice || tx.gasPrice || '0x0'),
+          gas_used: BigInt(receipt.gasUsed || '0x0'),
+          status: receipt.status === undefined ? true : Number(receipt.status) === 1,
+          logs: (receipt.logs || []).map((log) => ({
+            address: log.address.toLowerCase() as Hex,
+            topics: log.topics.map((topic) => topic.toLowerCase() as Hex),
+            data: log.data.toLowerCase() as Hex,
+            log_index: Number(log.logIndex),
+          })),
+          blob_versioned_hashes: (tx.blobVersionedHashes || []).map(
+            (versionedHash) => versionedHash.toLowerCase() as Hex,
+          ),
+        };
+      })
+      .sort((a, b) => a.index - b.index),
+  };
+}
@@ -0,0 +1,64 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createClient } from '@libsql/client';
+import { drizzle } from 'drizzle-orm/libsql';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+import { keccak256, numberToHex, stringToHex } from 'viem';
+
+import * as schema from '@/db/schema/index.ts';
+import { createDiskStorage } from '@/storage/index.ts';
+import type { Database, Hex, RpcBlock, RpcFixture, RpcTransaction } from './types.ts';
+
+// Test helpers, a migrated database in a temporary directory and the blocks of JSON-RPC fixtures
+
+export type FixtureTransaction = Pick<RpcTransaction, 'from' | 'to' | 'input'> & { hash?: Hex };
+
+export async function createTestDatabase() {
+  const dir = await mkdtemp(path.join(tmpdir(), 'calldata-'));
+  const client = createClient({ url: `file:${path.join(dir, 'test.db')}` });
+  const db: Database = drizzle(client, { schema });
+
+  await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, '../db/migrations') });
+
+  return {
+    db,
+    storage: createDiskStorage(path.join(dir, 'storage')),
+    async cleanup() {
+      client.close();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+// The hash of a fixture block, blocks of another `fork` at the same height have another one
+export function getFixtureBlockHash(number: number, fork = '') {
+  return keccak256(stringToHex(`${fork}block:${number}`));
+}
+
+// A block on the `fork` branch (the main one by default), with its parent on `parentFork`, the same
+// branch unless it's the first block of a fork. Transactions without a hash get one of their position
+export function createFixtureBlock(
+  number: number,
+  transactions: FixtureTransaction[],
+  options?: { fork?: string; parentFork?: string },
+): RpcFixture['blocks'][number] {
+  const fork = options?.fork || '';
+  const hash = getFixtureBlockHash(number, fork);
+
+  return {
+    number: numberToHex(number),
+    hash,
+    parentHash: getFixtureBlockHash(number - 1, options?.parentFork ?? fork),
+    timestamp: numberToHex(1_700_000_000 + number * 12),
+    transactions: transactions.map((tx, idx) => ({
+      hash: tx.hash || keccak256(stringToHex(`${hash}:${idx}`)),
+      from: tx.from,
+      to: tx.to,
+      input: tx.input,
+      value: '0x0',
+      gasPrice: '0x3b9aca00',
+      transactionIndex: numberToHex(idx),
+    })) as RpcBlock['transactions'],
+  };
+}
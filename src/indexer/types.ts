@@ -0,0 +1,140 @@
+import type { BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core';
+
+import type { db } from '@/db/index.ts';
+import type * as schema from '@/db/schema/index.ts';
+import type { ProtocolRegistry } from '@/protocols/index.ts';
+import type { StorageAdapter } from '@/storage/index.ts';
+
+export type Hex = `0x${string}`;
+
+export type Database = typeof db;
+
+// Either the `db` itself or a transaction started from it, they share the same query builder
+export type DbClient = BaseSQLiteDatabase<'async', any, typeof schema>;
+
+// Raw shapes, as returned from the JSON-RPC node (hex quantities)
+export type RpcTransaction = {
+  hash: Hex;
+  from: Hex;
+  to: Hex | null;
+  input: Hex;
+  value: Hex;
+  type?: Hex;
+  gasPrice?: Hex;
+  transactionIndex: Hex;
+  blobVersionedHashes?: Hex[];
+};
+
+export type RpcBlock = {
+  number: Hex;
+  hash: Hex;
+  parentHash: Hex;
+  timestamp: Hex;
+  transactions: RpcTransaction[];
+};
+
+export type RpcLog = {
+  address: Hex;
+  topics: Hex[];
+  data: Hex;
+  logIndex: Hex;
+  transactionHash: Hex;
+};
+
+export type RpcReceipt = {
+  transactionHash: Hex;
+  transactionIndex: Hex;
+  status: Hex;
+  gasUsed: Hex;
+  effectiveGasPrice?: Hex;
+  logs: RpcLog[];
+};
+
+// A fixture is just a list of blocks, each optionally carrying its receipts,
+// when receipts are missing every transaction is considered successful without logs
+export type RpcFixture = {
+  blocks: (RpcBlock & { receipts?: RpcReceipt[] })[];
+  // the blob sidecars, keyed by their versioned hash
+  blobs?: Record<Hex, Hex>;
+};
+
+export type RpcTransport = (method: string, params: unknown[]) => Promise<any>;
+
+// Normalized shapes the ingestion works with, all hex values are lowercased
+export type IndexerLog = {
+  address: Hex;
+  topics: Hex[];
+  data: Hex;
+  log_index: number;
+};
+
+export type IndexerTransaction = {
+  hash: Hex;
+  index: number;
+  type: number;
+  from: Hex;
+  to: Hex | null;
+  input: Hex;
+  value: bigint;
+  gas_price: bigint;
+  gas_used: bigint;
+  status: boolean;
+  logs: IndexerLog[];
+  blob_versioned_hashes: Hex[];
+  // the blobs themselves are not part of the block, they are fetched separately (if available)
+  blobs?: Hex[];
+};
+
+export type IndexerBlock = {
+  number: number;
+  hash: Hex;
+  parent_hash: Hex;
+  timestamp: number;
+  transactions: IndexerTransaction[];
+};
+
+export type IndexerBlockHeader = Pick<
+  IndexerBlock,
+  'number' | 'hash' | 'parent_hash' | 'timestamp'
+>;
+
+export type BlobFetcher = (
+  block: IndexerBlockHeader,
+  versionedHashes: Hex[],
+) => Promise<Hex[] | null>;
+
+export type BlockSource = {
+  getBlockNumber: () => Promise<number>;
+  getBlockHeader: (blockNumber: number) => Promise<IndexerBlockHeader | null>;
+  getBlock: (blockNumber: number) => Promise<IndexerBlock | null>;
+};
+
+export type IndexerReorg = {
+  // last block both the indexed and the canonical chain agree on
+  ancestor: number;
+  // first block that did not match its parent
+  detected_at: number;
+  removed: string[];
+  restored: string[];
+};
+
+export type IndexerOptions = {
+  db: Database;
+  source: BlockSource;
+  // where ESIP-8 attachments are kept, the default local disk storage if not given
+  storage?: StorageAdapter;
+  // the meta protocols to parse, the default registry from `src/protocols` if not given
+  protocols?: ProtocolRegistry;
+  // used only when nothing is indexed yet, otherwise it resumes from the last indexed block
+  startBlock?: number;
+  toBlock?: number;
+  onBlock?: (block: IndexerBlock) => void | Promise<void>;
+  onReorg?: (reorg: IndexerReorg) => void | Promise<void>;
+};
+
+export type IndexerResult = {
+  from: number;
+  to: number;
+  indexed: number;
+  reorgs: number;
+};
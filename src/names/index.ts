@@ -0,0 +1,57 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+
+import { names, profiles } from '@/db/schema/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+
+export type NameRecord = typeof names.$inferSelect;
+
+// Forward resolution, the exact (case-sensitive) name to its current owner, or its creator with `checkCreator`
+export async function resolveName(
+  db: DbClient,
+  name: string,
+  options?: { checkCreator?: boolean },
+) {
+  const [record] = await db.select().from(names).where(eq(names.name, name));
+
+  if (!record) {
+    return null;
+  }
+
+  return options?.checkCreator ? record.creator : record.current_owner;
+}
+
+// The names an address currently owns, oldest registration first
+export function getOwnedNames(db: DbClient, address: string) {
+  return db
+    .select()
+    .from(names)
+    .where(eq(names.current_owner, address.toLowerCase()))
+    .orderBy(asc(names.block_number), asc(names.transaction_index));
+}
+
+// Reverse resolution, the primary name of an address. It's the `primary` of their latest user profile,
+// as long as they still own that name, otherwise their oldest owned name, and `null` when they own none
+export async function getPrimaryName(db: DbClient, address: string) {
+  const owner = address.toLowerCase();
+  const [profile] = await db
+    .select({ primary_name: profiles.primary_name })
+    .from(profiles)
+    .where(eq(profiles.creator, owner))
+    .orderBy(desc(profiles.block_number), desc(profiles.transaction_index))
+    .limit(1);
+
+  const [primary] = profile?.primary_name
+    ? await db
+        .select()
+        .from(names)
+        .where(and(eq(names.name, profile.primary_name), eq(names.current_owner, owner)))
+    : [];
+
+  if (primary) {
+    return { ...primary, is_primary: true };
+  }
+
+  const [first] = await getOwnedNames(db, owner).limit(1);
+
+  return first ? { ...first, is_primary: false } : null;
+}
@@ -0,0 +1,66 @@
+import { gt } from 'drizzle-orm';
+
+import { protocolErc20Ops } from '@/db/schema/index.ts';
+import {
+  applyTokenOp,
+  rollbackTokenLedger,
+  settleTokenTransfer,
+  type TokenOp,
+} from '@/tokens/ledger.ts';
+import { insertProtocolRow } from './registry.ts';
+import type { ProtocolParser } from './types.ts';
+import { parseJsonObject, toOptionalString } from './utils.ts';
+
+const ERC20_OPS = ['deploy', 'mint', 'transfer'] as const;
+
+// positive integer amounts, without leading zeros
+const AMOUNT_REGEX = /^[1-9]\d*$/;
+
+// The "erc-20" text inscriptions, `data:,{"p":"erc-20","op":"mint","tick":"eths","id":"1","amt":"1000"}`.
+// Ticks are case-insensitive, so they are lowercased, and invalid amounts make the whole op invalid.
+// Every op is recorded, and the token ledger (see `src/tokens`) decides whether it's valid
+export const erc20Parser: ProtocolParser<TokenOp & { data: Record<string, any> }> = {
+  name: 'erc-20',
+  table: protocolErc20Ops,
+  parse(input) {
+    const isText = input.content_type === 'text/plain' || input.content_type === 'application/json';
+    const data = isText && parseJsonObject(input.content.trim());
+
+    if (!data || String(data.p).toLowerCase() !== 'erc-20') {
+      return null;
+    }
+
+    const op = ERC20_OPS.find((x) => x === data.op);
+    const tick = toOptionalString(data.tick)?.toLowerCase();
+    const amounts = {
+      max: toOptionalString(data.max),
+      lim: toOptionalString(data.lim),
+      amt: toOptionalString(data.amt),
+    };
+    const required = op === 'deploy' ? [amounts.max] : [amounts.amt];
+
+    if (!op || !tick || required.includes(null)) {
+      return null;
+    }
+
+    if (Object.values(amounts).some((value) => value !== null && !AMOUNT_REGEX.test(value))) {
+      return null;
+    }
+
+    return { op, tick, ...amounts, data };
+  },
+  async write(tx, input, parsed) {
+    const isValid = await applyTokenOp(tx, input, parsed);
+
+    await insertProtocolRow(tx, protocolErc20Ops, input, {
+      ...parsed,
+      is_valid: isValid,
+      settled_at_block: isValid === null ? null : input.block_number,
+    });
+  },
+  onTransfer: settleTokenTransfer,
+  async rollback(tx, blockNumber) {
+    await rollbackTokenLedger(tx, blockNumber);
+    await tx.delete(protocolErc20Ops).where(gt(protocolErc20Ops.block_number, blockNumber));
+  },
+};
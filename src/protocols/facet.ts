@@ -0,0 +1,31 @@
+import { protocolFacetTxs } from '@/db/schema/index.ts';
+import type { ProtocolParser } from './types.ts';
+import { parseJsonObject, toOptionalString } from './utils.ts';
+
+export const FACET_CONTENT_TYPE = 'application/vnd.facet.tx+json';
+
+// Facet transactions (ESIP-4), `data:application/vnd.facet.tx+json,{"op":"call","data":{"to":"0x...","function":"...","args":{...}}}`,
+// they are only recorded here, executing them is up to Facet itself
+export const facetParser: ProtocolParser = {
+  name: 'facet',
+  table: protocolFacetTxs,
+  parse(input) {
+    const data = input.content_type === FACET_CONTENT_TYPE && parseJsonObject(input.content);
+    const op = data && toOptionalString(data.op);
+
+    if (!data || !op) {
+      return null;
+    }
+
+    const tx = data.data && typeof data.data === 'object' ? data.data : {};
+    const to = toOptionalString(tx.to);
+
+    return {
+      op,
+      to_address: to ? to.toLowerCase() : null,
+      function: toOptionalString(tx.function),
+      args: tx.args && typeof tx.args === 'object' ? tx.args : null,
+      data,
+    };
+  },
+};
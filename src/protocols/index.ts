@@ -0,0 +1,21 @@
+import { erc20Parser } from './erc20.ts';
+import { facetParser } from './facet.ts';
+import { namesParser } from './names.ts';
+import { profileParser } from './profile.ts';
+import { createProtocolRegistry } from './registry.ts';
+
+export * from './erc20.ts';
+export * from './facet.ts';
+export * from './names.ts';
+export * from './profile.ts';
+export * from './registry.ts';
+export * from './reparse.ts';
+export type * from './types.ts';
+
+// The meta protocols the indexer parses by default, a new one is a parser with its own table, added here
+export const protocols = createProtocolRegistry([
+  profileParser,
+  facetParser,
+  erc20Parser,
+  namesParser,
+]);
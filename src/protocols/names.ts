@@ -0,0 +1,52 @@
+import { and, eq, gt, inArray, lte, sql } from 'drizzle-orm';
+import { sha256, stringToBytes } from 'viem';
+
+import { names, transfers } from '@/db/schema/index.ts';
+import { TRANSFERS_ORDER_DESC } from '@/indexer/ownership.ts';
+import type { ProtocolParser } from './types.ts';
+
+// letters and digits (any script), dots, dashes and underscores
+const NAME_REGEX = /^[\p{L}\p{N}._-]{1,64}$/u;
+
+// Ethscription Names, exactly `data:,{name}`, without a media type, parameters or encoding.
+// Duplicates of a name can only be ESIP-6 ones, which are never in that form, so the first one is the only one
+export const namesParser: ProtocolParser = {
+  name: 'name',
+  table: names,
+  parse(input) {
+    if (input.uri !== `data:,${input.content}` || !NAME_REGEX.test(input.content)) {
+      return null;
+    }
+
+    return {
+      name: input.content,
+      content_sha: sha256(stringToBytes(input.uri)),
+      current_owner: input.initial_owner,
+    };
+  },
+  async onTransfer(tx, transfer) {
+    await tx
+      .update(names)
+      .set({ current_owner: transfer.to })
+      .where(eq(names.ethscription_id, transfer.id));
+  },
+  async rollback(tx, blockNumber) {
+    await tx.delete(names).where(gt(names.block_number, blockNumber));
+
+    // the transfers after `blockNumber` are still there, so the owner is the latest one before it
+    const transferred = tx
+      .selectDistinct({ id: transfers.ethscription_id })
+      .from(transfers)
+      .where(gt(transfers.block_number, blockNumber));
+
+    await tx
+      .update(names)
+      .set({
+        current_owner: sql`(SELECT ${transfers.to_address} FROM ${transfers} WHERE ${and(
+          eq(transfers.ethscription_id, names.ethscription_id),
+          lte(transfers.block_number, blockNumber),
+        )} ORDER BY ${TRANSFERS_ORDER_DESC} LIMIT 1)`,
+      })
+      .where(inArray(names.ethscription_id, transferred));
+  },
+};
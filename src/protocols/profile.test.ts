@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { stringToHex } from 'viem';
+
+import { profiles } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from '@/indexer/constants.ts';
+import { createBlockSource, createFixtureTransport, runIndexer } from '@/indexer/index.ts';
+import { createFixtureBlock, createTestDatabase } from '@/indexer/testing.ts';
+import { protocols } from './index.ts';
+import { PROFILE_CONTENT_TYPE } from './profile.ts';
+import { reparseProtocols } from './reparse.ts';
+
+const START = ESIP_5_START_BLOCK + 1000;
+const alice = `0x${'a'.repeat(40)}` as const;
+
+// a profile well over the 1kb of `transactions.truncated_data`, with its last field past it
+const profile = {
+  name: 'Alice',
+  bio: 'gm '.repeat(500).trim(),
+  links: { x: 'https://x.com/alice' },
+};
+const uri = `data:${PROFILE_CONTENT_TYPE},${JSON.stringify(profile)}`;
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+function getProfiles() {
+  return ctx.db
+    .select({
+      display_name: profiles.display_name,
+      bio: profiles.bio,
+      links: profiles.links,
+      data: profiles.data,
+    })
+    .from(profiles);
+}
+
+describe('profiles', () => {
+  test('indexes a profile over 1kb from its whole content', async () => {
+    const block = createFixtureBlock(START, [{ from: alice, to: alice, input: stringToHex(uri) }]);
+
+    expect(uri.length).toBeGreaterThan(1024);
+
+    await runIndexer({
+      db: ctx.db,
+      storage: ctx.storage,
+      source: createBlockSource(createFixtureTransport({ blocks: [block] })),
+      startBlock: START,
+    });
+
+    const expected = [
+      { display_name: 'Alice', bio: profile.bio, links: profile.links, data: profile },
+    ];
+
+    expect(await getProfiles()).toEqual(expected);
+
+    // and re-parses it the same, from the stored content
+    await ctx.db.transaction((tx) => reparseProtocols(tx, protocols, START, ctx.storage));
+
+    expect(await getProfiles()).toEqual(expected);
+  });
+});
@@ -0,0 +1,34 @@
+import { profiles } from '@/db/schema/index.ts';
+import type { ProtocolParser } from './types.ts';
+import { parseJsonObject, toOptionalString } from './utils.ts';
+
+export const PROFILE_CONTENT_TYPE = 'application/vnd.esc.user.profile+json';
+
+// User profiles, `data:application/vnd.esc.user.profile+json,{"name":"...","bio":"...","avatar":"...","links":{...}}`,
+// only the typed fields are picked, the whole JSON is kept as is in `data`. The `primary` field is the Ethscription Name
+// the user picked as their primary one (see `src/names`)
+export const profileParser: ProtocolParser = {
+  name: 'profile',
+  table: profiles,
+  parse(input) {
+    const data = input.content_type === PROFILE_CONTENT_TYPE && parseJsonObject(input.content);
+
+    if (!data) {
+      return null;
+    }
+
+    const links = Object.entries(data.links && typeof data.links === 'object' ? data.links : {})
+      .filter(([, value]) => typeof value === 'string')
+      .map(([key, value]) => [key, value as string]);
+
+    return {
+      block_timestamp: input.block_timestamp,
+      display_name: toOptionalString(data.display_name ?? data.name),
+      bio: toOptionalString(data.bio ?? data.description),
+      avatar: toOptionalString(data.avatar ?? data.image),
+      links: Object.fromEntries(links),
+      primary_name: toOptionalString(data.primary ?? data.primary_name),
+      data,
+    };
+  },
+};
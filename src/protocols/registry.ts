@@ -0,0 +1,147 @@
+import { eq, gt, inArray } from 'drizzle-orm';
+
+import { decodeDataUriContent, getDataUriContentType } from '@/content/index.ts';
+import type { DbClient } from '@/indexer/types.ts';
+import type {
+  ProtocolData,
+  ProtocolInput,
+  ProtocolParser,
+  ProtocolTable,
+  ProtocolTransfer,
+} from './types.ts';
+
+export type ProtocolRegistry = ReturnType<typeof createProtocolRegistry>;
+
+// The content type and decoded text of a (possibly truncated) data URI, `null` when it's not decodable,
+// like a truncated base64 or gzipped payload. With the already decoded `bytes` of the whole content,
+// the text is that one, and only the content type is read from the URI
+export async function getProtocolContent(uri: string, bytes?: Uint8Array | null) {
+  try {
+    const decoded = bytes
+      ? { content_type: getDataUriContentType(uri), bytes }
+      : await decodeDataUriContent(uri);
+
+    return decoded?.content_type
+      ? {
+          uri,
+          content_type: decoded.content_type.split(';')[0],
+          content: new TextDecoder('utf8').decode(decoded.bytes),
+        }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// The plain write of a parsed row, along with the columns every protocol table has
+export async function insertProtocolRow(
+  tx: DbClient,
+  table: ProtocolTable,
+  input: ProtocolInput,
+  parsed: Record<string, unknown>,
+) {
+  await tx.insert(table).values({
+    ethscription_id: input.id,
+    block_number: input.block_number,
+    transaction_index: input.transaction_index,
+    creator: input.creator,
+    ...parsed,
+  } as any);
+}
+
+// Parsers are tried in order and the first one that claims an ethscription wins,
+// so an ethscription belongs to at most one protocol
+export function createProtocolRegistry(parsers: ProtocolParser<any>[]) {
+  const names = new Set(parsers.map((parser) => parser.name));
+
+  if (names.size !== parsers.length) {
+    throw new Error('Protocol parser names must be unique');
+  }
+
+  return {
+    parsers,
+
+    // Parses a newly created ethscription and writes it to the table of the protocol that claims it,
+    // returns the name of that protocol, or `null` when none does
+    async process(tx: DbClient, input: ProtocolInput) {
+      for (const parser of parsers) {
+        const parsed = parser.parse(input);
+
+        if (parsed && parser.write) {
+          // eslint-disable-next-line no-await-in-loop
+          await parser.write(tx, input, parsed);
+        } else if (parsed) {
+          // eslint-disable-next-line no-await-in-loop
+          await insertProtocolRow(tx, parser.table, input, parsed);
+        }
+
+        if (parsed) {
+          return parser.name;
+        }
+      }
+
+      return null;
+    },
+
+    // Lets the protocol that claimed the transferred ethscription (if any) react to the transfer
+    async transfer(tx: DbClient, transfer: ProtocolTransfer) {
+      for (const parser of parsers.filter((x) => x.onTransfer)) {
+        // eslint-disable-next-line no-await-in-loop
+        const [claimed] = await tx
+          .select({ id: parser.table.ethscription_id })
+          .from(parser.table)
+          .where(eq(parser.table.ethscription_id, transfer.id))
+          .limit(1);
+
+        if (claimed) {
+          // eslint-disable-next-line no-await-in-loop
+          await parser.onTransfer?.(tx, transfer);
+          return;
+        }
+      }
+    },
+
+    async rollback(tx: DbClient, blockNumber: number) {
+      for (const parser of parsers) {
+        // eslint-disable-next-line no-await-in-loop
+        await (parser.rollback
+          ? parser.rollback(tx, blockNumber)
+          : tx.delete(parser.table).where(gt(parser.table.block_number, blockNumber)));
+      }
+    },
+
+    // The protocol data of the given ethscriptions, as `{ name, record }` by ethscription ID,
+    // the ones that no protocol claimed are not in the map
+    async load(db: DbClient, ids: string[]) {
+      const data = new Map<string, ProtocolData>();
+
+      if (ids.length === 0) {
+        return data;
+      }
+
+      for (const parser of parsers) {
+        // eslint-disable-next-line no-await-in-loop
+        const rows = await db
+          .select()
+          .from(parser.table)
+          .where(inArray(parser.table.ethscription_id, ids));
+
+        for (const { ethscription_id, ...row } of rows as Record<string, any>[]) {
+          data.set(ethscription_id, { name: parser.name, record: row });
+        }
+      }
+
+      return data;
+    },
+
+    // Adds `protocol` to each ethscription, for `?expand=protocol`, `null` when no protocol claimed it
+    async attach<T extends { id: string }>(db: DbClient, items: T[]) {
+      const data = await this.load(
+        db,
+        items.map((item) => item.id),
+      );
+
+      return items.map((item) => ({ ...item, protocol: data.get(item.id) || null }));
+    },
+  };
+}
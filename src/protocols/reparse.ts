@@ -0,0 +1,102 @@
+import { asc, eq, gte, sql } from 'drizzle-orm';
+
+import { getContent } from '@/content/index.ts';
+import { ethscriptions, transactions, transfers } from '@/db/schema/index.ts';
+import type { DbClient, Hex } from '@/indexer/types.ts';
+import { getStorage, type StorageAdapter } from '@/storage/index.ts';
+import { getProtocolContent, type ProtocolRegistry } from './registry.ts';
+
+const REPARSE_BATCH_SIZE = 1000;
+
+// the whole stored content when it's there, or else what's decodable of the truncated data URI
+async function getCreationContent(
+  storage: StorageAdapter,
+  row: { content_sha: string; truncated_data: string | null },
+) {
+  const bytes = await getContent(storage, row.content_sha);
+
+  return getProtocolContent(row.truncated_data || '', bytes);
+}
+
+// Re-parses everything from `fromBlock` on, from the already indexed ethscriptions, their `transactions.truncated_data`
+// and their content in the `storage`, for new protocols or parser changes. Creations and transfers are replayed in chain
+// order, the creation being the first transfer row of an ethscription, the one inserted along with it
+export async function reparseProtocols(
+  tx: DbClient,
+  registry: ProtocolRegistry,
+  fromBlock = 0,
+  storage: StorageAdapter = getStorage(),
+) {
+  await registry.rollback(tx, fromBlock - 1);
+
+  let claimed = 0;
+
+  for (let offset = 0; ; offset += REPARSE_BATCH_SIZE) {
+    // eslint-disable-next-line no-await-in-loop
+    const rows = await tx
+      .select({
+        id: transfers.ethscription_id,
+        is_creation:
+          sql<number>`${transfers.index} = (SELECT min("first"."index") FROM ${transfers} AS "first" WHERE "first"."ethscription_id" = ${transfers.ethscription_id})`.mapWith(
+            Boolean,
+          ),
+        event_log_index: transfers.event_log_index,
+        block_number: transfers.block_number,
+        block_timestamp: transfers.block_timestamp,
+        transaction_index: transfers.transaction_index,
+        from: transfers.from_address,
+        to: transfers.to_address,
+        creator: ethscriptions.creator,
+        initial_owner: ethscriptions.initial_owner,
+        content_sha: ethscriptions.content_sha,
+        truncated_data: transactions.truncated_data,
+      })
+      .from(transfers)
+      .innerJoin(ethscriptions, eq(transfers.ethscription_id, ethscriptions.id))
+      .leftJoin(transactions, eq(ethscriptions.id, transactions.transaction_hash))
+      .where(gte(transfers.block_number, fromBlock))
+      .orderBy(
+        asc(transfers.block_number),
+        asc(transfers.transaction_index),
+        asc(transfers.event_log_index),
+        asc(transfers.bulk_index),
+        asc(transfers.index),
+      )
+      .limit(REPARSE_BATCH_SIZE)
+      .offset(offset);
+
+    for (const row of rows) {
+      // eslint-disable-next-line no-await-in-loop
+      const content = row.is_creation ? await getCreationContent(storage, row) : null;
+
+      if (content) {
+        // eslint-disable-next-line no-await-in-loop
+        const name = await registry.process(tx, {
+          id: row.id as Hex,
+          block_number: row.block_number,
+          block_timestamp: row.block_timestamp,
+          transaction_index: row.transaction_index,
+          creator: row.creator as Hex,
+          initial_owner: row.initial_owner as Hex,
+          ...content,
+        });
+
+        claimed += name ? 1 : 0;
+      } else if (!row.is_creation) {
+        // eslint-disable-next-line no-await-in-loop
+        await registry.transfer(tx, {
+          id: row.id as Hex,
+          from: row.from as Hex,
+          to: row.to as Hex,
+          block_number: row.block_number,
+          transaction_index: row.transaction_index,
+          event_log_index: row.event_log_index,
+        });
+      }
+    }
+
+    if (rows.length < REPARSE_BATCH_SIZE) {
+      return { claimed };
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import type { AnySQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+
+import type { DbClient, Hex } from '@/indexer/types.ts';
+
+// What a protocol parser sees of an ethscription, its data URI as kept in `transactions.truncated_data` and its
+// whole content as kept in the storage, so parsers see the same thing when indexing live and when re-parsing
+export type ProtocolInput = {
+  id: Hex;
+  block_number: number;
+  block_timestamp: number;
+  transaction_index: number;
+  creator: Hex;
+  initial_owner: Hex;
+  // the (truncated) data URI itself
+  uri: string;
+  content_type: string;
+  // the decoded (and decompressed, for ESIP-7) text of the whole payload
+  content: string;
+};
+
+export type ProtocolTransfer = {
+  id: Hex;
+  from: Hex;
+  to: Hex;
+  block_number: number;
+  transaction_index: number;
+  event_log_index: number | null;
+};
+
+// the table the parsed rows go to, with at least the columns from `protocolColumns` (see `src/db/schema/protocols.ts`)
+export type ProtocolTable = SQLiteTable & {
+  ethscription_id: AnySQLiteColumn;
+  block_number: AnySQLiteColumn;
+};
+
+export type ProtocolParser<T extends Record<string, unknown> = Record<string, any>> = {
+  // the value of `protocol.name` in the API, like `erc-20`
+  name: string;
+  table: ProtocolTable;
+  // claims the ethscription by returning the row fields parsed from it, or `null` when it's not this protocol
+  parse: (input: ProtocolInput) => T | null;
+  // custom writes, in place of a plain insert of the parsed row
+  write?: (tx: DbClient, input: ProtocolInput, parsed: T) => Promise<void>;
+  // called for every valid transfer of an ethscription this protocol claimed
+  onTransfer?: (tx: DbClient, transfer: ProtocolTransfer) => Promise<void>;
+  // undo everything after `blockNumber`, in place of deleting the rows of later blocks
+  rollback?: (tx: DbClient, blockNumber: number) => Promise<void>;
+};
+
+// the protocol that claimed an ethscription, and its row in the protocol table
+export type ProtocolData = { name: string; record: Record<string, unknown> };
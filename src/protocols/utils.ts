@@ -0,0 +1,19 @@
+// The content as a JSON object, `null` when it's not valid JSON or not an object
+export function parseJsonObject(content: string): Record<string, any> | null {
+  try {
+    const value = JSON.parse(content);
+
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Non-empty strings as they are, numbers as strings, anything else as `null`
+export function toOptionalString(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
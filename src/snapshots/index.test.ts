@@ -0,0 +1,136 @@
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { inArray } from 'drizzle-orm';
+import { stringToHex } from 'viem';
+
+import { collections, ethscriptions } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from '@/indexer/constants.ts';
+import { createBlockSource, createFixtureTransport, runIndexer } from '@/indexer/index.ts';
+import { createFixtureBlock, createTestDatabase } from '@/indexer/testing.ts';
+import { createCollectionSnapshot, getSnapshotBlock, toSnapshotCsv } from './index.ts';
+
+const START = ESIP_5_START_BLOCK + 1000;
+const alice = `0x${'a'.repeat(40)}` as const;
+const bob = `0x${'b'.repeat(40)}` as const;
+const carol = `0x${'c'.repeat(40)}` as const;
+
+const create = (from: typeof alice, to: typeof alice, content: string) => ({
+  from,
+  to,
+  input: stringToHex(`data:,${content}`),
+});
+
+// the timestamp of a fixture block (see `createFixtureBlock`)
+const getTimestamp = (number: number) => 1_700_000_000 + number * 12;
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+let collectionId: string;
+
+// alice gets `a` and `b` and bob gets `c`, then alice sends `a` to carol, and gets `d` later on,
+// with `e` not in the collection, and an empty block at the end
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+
+  const first = createFixtureBlock(START, [
+    create(alice, alice, 'a'),
+    create(alice, alice, 'b'),
+    create(alice, bob, 'c'),
+    create(alice, alice, 'e'),
+  ]);
+  const [a, b, c] = first.transactions.map((tx) => tx.hash);
+  const second = createFixtureBlock(START + 1, [{ from: alice, to: carol, input: a }]);
+  const third = createFixtureBlock(START + 2, [create(alice, alice, 'd')]);
+  const [d] = third.transactions.map((tx) => tx.hash);
+  const blocks = [first, second, third, createFixtureBlock(START + 3, [])];
+
+  await runIndexer({
+    db: ctx.db,
+    storage: ctx.storage,
+    source: createBlockSource(createFixtureTransport({ blocks })),
+    startBlock: START,
+  });
+
+  const [collection] = await ctx.db
+    .insert(collections)
+    .values({ supply: 4, slug: 'letters', name: 'Letters', description: '' })
+    .returning({ id: collections.id });
+
+  collectionId = collection.id;
+
+  await ctx.db
+    .update(ethscriptions)
+    .set({ collection_id: collectionId })
+    .where(inArray(ethscriptions.id, [a, b, c, d]));
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+describe('collection snapshots', () => {
+  test('counts the items each holder owns at the end of a block, created up to it', async () => {
+    const snapshots = await Promise.all(
+      [START - 1, START, START + 1, START + 2].map((block) =>
+        createCollectionSnapshot(ctx.db, collectionId, block),
+      ),
+    );
+
+    expect(snapshots.map((x) => [x.items, x.holders, x.data])).toEqual([
+      [0, 0, []],
+      [
+        3,
+        2,
+        [
+          { address: alice, count: 2 },
+          { address: bob, count: 1 },
+        ],
+      ],
+      [
+        3,
+        3,
+        [
+          { address: alice, count: 1 },
+          { address: bob, count: 1 },
+          { address: carol, count: 1 },
+        ],
+      ],
+      [
+        4,
+        3,
+        [
+          { address: alice, count: 2 },
+          { address: bob, count: 1 },
+          { address: carol, count: 1 },
+        ],
+      ],
+    ]);
+  });
+
+  test('hashes the CSV export', async () => {
+    const snapshot = await createCollectionSnapshot(ctx.db, collectionId, START + 2);
+    const csv = toSnapshotCsv(snapshot.data);
+
+    expect(csv).toBe(`address,count\n${alice},2\n${bob},1\n${carol},1\n`);
+    expect(snapshot.sha).toBe(`0x${createHash('sha256').update(csv).digest('hex')}`);
+  });
+
+  test('takes the block of a timestamp from the last transfer at or before it', async () => {
+    expect(await getSnapshotBlock(ctx.db, {})).toBe(START + 2);
+    expect(await getSnapshotBlock(ctx.db, { at_block: START })).toBe(START);
+    expect(await getSnapshotBlock(ctx.db, { at_timestamp: getTimestamp(START) })).toBe(START);
+    expect(await getSnapshotBlock(ctx.db, { at_timestamp: getTimestamp(START + 1) + 5 })).toBe(
+      START + 1,
+    );
+    expect(await getSnapshotBlock(ctx.db, { at_timestamp: getTimestamp(START + 3) })).toBe(
+      START + 2,
+    );
+  });
+
+  test('gives no block for a timestamp outside the indexed range', async () => {
+    expect(await getSnapshotBlock(ctx.db, { at_timestamp: getTimestamp(START) - 1 })).toBeNull();
+    expect(await getSnapshotBlock(ctx.db, { at_timestamp: 0 })).toBeNull();
+    expect(
+      await getSnapshotBlock(ctx.db, { at_timestamp: getTimestamp(START + 3) + 1 }),
+    ).toBeNull();
+  });
+});
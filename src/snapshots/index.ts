@@ -0,0 +1,90 @@
+import { and, eq, lte, max, min, sql } from 'drizzle-orm';
+
+import { getOwnersAt } from '@/db/queries/index.ts';
+import { blocks, ethscriptions, transfers } from '@/db/schema/index.ts';
+import { createDigest } from '@/eths-library/utils.ts';
+import type { DbClient } from '@/indexer/types.ts';
+
+export type SnapshotHolder = { address: string; count: number };
+
+export type CollectionSnapshot = {
+  collection_id: string;
+  block_number: number;
+  items: number;
+  holders: number;
+  // SHA-256 of the CSV export, so a downloaded CSV can be verified with any `sha256sum`
+  sha: string;
+  data: SnapshotHolder[];
+};
+
+// The block to take a snapshot at, the given one, or the last block with transfers at or before `timestamp`,
+// or the last indexed transfer when neither is given. Ownership changes only with transfers, so it's the same state.
+// A `timestamp` outside the indexed range, before the first transfer or after the last indexed block, gives `null`
+export async function getSnapshotBlock(
+  db: DbClient,
+  options: { at_block?: number; at_timestamp?: number },
+) {
+  if (typeof options.at_block === 'number') {
+    return options.at_block;
+  }
+
+  if (typeof options.at_timestamp === 'number') {
+    const [{ first }] = await db.select({ first: min(transfers.block_timestamp) }).from(transfers);
+    const [{ indexed }] = await db.select({ indexed: max(blocks.block_timestamp) }).from(blocks);
+
+    if (
+      first === null ||
+      options.at_timestamp < first ||
+      options.at_timestamp > (indexed ?? Number.POSITIVE_INFINITY)
+    ) {
+      return null;
+    }
+  }
+
+  const [{ last }] = await db
+    .select({ last: max(transfers.block_number) })
+    .from(transfers)
+    .where(
+      typeof options.at_timestamp === 'number'
+        ? lte(transfers.block_timestamp, options.at_timestamp)
+        : undefined,
+    );
+
+  return last ?? 0;
+}
+
+// One `address,count` line per holder, largest holder first, then by address, so the same holders
+// always give the same bytes, and the same hash
+export function toSnapshotCsv(holders: SnapshotHolder[]) {
+  const lines = holders.map((x) => `${x.address},${x.count}\n`);
+
+  return `address,count\n${lines.join('')}`;
+}
+
+// The holders of a collection at the end of `blockNumber`, with how many of its items each one owns,
+// only the items created up to that block count
+export async function createCollectionSnapshot(
+  db: DbClient,
+  collectionId: string,
+  blockNumber: number,
+): Promise<CollectionSnapshot> {
+  const items = sql`SELECT ${ethscriptions.id} FROM ${ethscriptions} WHERE ${and(
+    eq(ethscriptions.collection_id, collectionId),
+    lte(ethscriptions.block_number, blockNumber),
+  )}`;
+
+  const rows = await db.all<{ address: string; count: number }>(
+    sql`SELECT owners.owner AS address, COUNT(*) AS count FROM (${getOwnersAt(blockNumber, items)}) AS owners GROUP BY owners.owner ORDER BY count DESC, address ASC`,
+  );
+
+  const data = rows.map((row) => ({ address: row.address, count: Number(row.count) }));
+
+  return {
+    collection_id: collectionId,
+    block_number: blockNumber,
+    items: data.reduce((sum, x) => sum + x.count, 0),
+    holders: data.length,
+    sha: `0x${await createDigest(toSnapshotCsv(data))}`,
+    data,
+  };
+}
@@ -0,0 +1,50 @@
+import { access, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { StorageAdapter } from './types.ts';
+
+export function createDiskStorage(root: string): StorageAdapter {
+  const resolve = (key: string) => {
+    const fpath = path.resolve(root, key);
+
+    if (!fpath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return fpath;
+  };
+
+  return {
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(resolve(key)));
+      } catch (err: any) {
+        if (err.code === 'ENOENT') {
+          return null;
+        }
+
+        throw err;
+      }
+    },
+    async put(key, bytes) {
+      const fpath = resolve(key);
+      const tmp = `${fpath}.${process.pid}.tmp`;
+
+      // write to a temporary file first, so that readers never see a partially written one
+      await mkdir(path.dirname(fpath), { recursive: true });
+      await writeFile(tmp, bytes);
+      await rename(tmp, fpath);
+    },
+    async has(key) {
+      try {
+        await access(resolve(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
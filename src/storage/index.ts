@@ -0,0 +1,14 @@
+import { createDiskStorage } from './disk.ts';
+import type { StorageAdapter } from './types.ts';
+
+export * from './disk.ts';
+export type * from './types.ts';
+
+let storage: StorageAdapter | null = null;
+
+// The default storage, on local disk at `STORAGE_DIR` (or `.storage` in the current directory)
+export function getStorage(): StorageAdapter {
+  storage = storage || createDiskStorage(process.env.STORAGE_DIR || '.storage');
+
+  return storage;
+}
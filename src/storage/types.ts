@@ -0,0 +1,8 @@
+// Keys are slash-separated paths, like `attachments/0x1234...`, so that every adapter
+// (local disk, S3, R2, etc) can map them to its own layout
+export type StorageAdapter = {
+  get: (key: string) => Promise<Uint8Array | null>;
+  put: (key: string, bytes: Uint8Array) => Promise<void>;
+  has: (key: string) => Promise<boolean>;
+  delete: (key: string) => Promise<void>;
+};
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { asc } from 'drizzle-orm';
+import { stringToHex } from 'viem';
+
+import { protocolErc20Ops, tokenBalances, tokens } from '@/db/schema/index.ts';
+import { ESIP_5_START_BLOCK } from '@/indexer/constants.ts';
+import { createBlockSource, createFixtureTransport, runIndexer } from '@/indexer/index.ts';
+import { createFixtureBlock, createTestDatabase } from '@/indexer/testing.ts';
+import { rollbackTokenLedger } from './ledger.ts';
+
+const START = ESIP_5_START_BLOCK + 1000;
+const alice = `0x${'a'.repeat(40)}` as const;
+const bob = `0x${'b'.repeat(40)}` as const;
+const carol = `0x${'c'.repeat(40)}` as const;
+
+const op = (from: typeof alice, to: typeof alice, data: Record<string, string>) => ({
+  from,
+  to,
+  input: stringToHex(`data:,${JSON.stringify({ p: 'erc-20', tick: 'eths', ...data })}`),
+});
+
+let ctx: Awaited<ReturnType<typeof createTestDatabase>>;
+
+beforeEach(async () => {
+  ctx = await createTestDatabase();
+});
+
+afterEach(async () => {
+  await ctx.cleanup();
+});
+
+// alice deploys `eths` and mints, so does bob, then alice sends some to bob right away,
+// and some to carol through a transfer op inscribed to herself, then transferred
+async function indexLedger() {
+  const deploys = createFixtureBlock(START, [
+    op(alice, alice, { op: 'deploy', max: '250', lim: '100' }),
+    op(alice, alice, { op: 'mint', amt: '100' }),
+    // over the limit
+    op(alice, alice, { op: 'mint', amt: '101' }),
+    op(bob, bob, { op: 'mint', amt: '100', id: '2' }),
+    // over the supply left
+    op(carol, carol, { op: 'mint', amt: '100', id: '3' }),
+    op(carol, carol, { op: 'mint', amt: '50', id: '4' }),
+  ]);
+  const transfers = createFixtureBlock(START + 1, [
+    op(alice, bob, { op: 'transfer', amt: '30' }),
+    op(alice, alice, { op: 'transfer', amt: '50' }),
+    // more than bob has
+    op(bob, carol, { op: 'transfer', amt: '500' }),
+  ]);
+  const pending = transfers.transactions[1].hash;
+  const settles = createFixtureBlock(START + 2, [{ from: alice, to: carol, input: pending }]);
+  const blocks = [deploys, transfers, settles];
+
+  await runIndexer({
+    db: ctx.db,
+    storage: ctx.storage,
+    source: createBlockSource(createFixtureTransport({ blocks })),
+    startBlock: START,
+  });
+}
+
+function getBalances() {
+  return ctx.db
+    .select({ address: tokenBalances.address, balance: tokenBalances.balance })
+    .from(tokenBalances)
+    .orderBy(asc(tokenBalances.address));
+}
+
+function getOps() {
+  return ctx.db
+    .select({
+      op: protocolErc20Ops.op,
+      is_valid: protocolErc20Ops.is_valid,
+      settled_at_block: protocolErc20Ops.settled_at_block,
+    })
+    .from(protocolErc20Ops)
+    .orderBy(asc(protocolErc20Ops.block_number), asc(protocolErc20Ops.transaction_index));
+}
+
+async function getMinted() {
+  const [token] = await ctx.db.select({ minted: tokens.minted }).from(tokens);
+
+  return token?.minted ?? null;
+}
+
+describe('token ledger', () => {
+  test('credits the mints within the limit and the supply, and moves the transfers', async () => {
+    await indexLedger();
+
+    expect(await getMinted()).toBe(250);
+    expect(await getBalances()).toEqual([
+      { address: alice, balance: 20 },
+      { address: bob, balance: 130 },
+      { address: carol, balance: 100 },
+    ]);
+    expect((await getOps()).map((x) => [x.op, x.is_valid])).toEqual([
+      ['deploy', true],
+      ['mint', true],
+      ['mint', false],
+      ['mint', true],
+      ['mint', false],
+      ['mint', true],
+      ['transfer', true],
+      ['transfer', true],
+      ['transfer', false],
+    ]);
+  });
+
+  test('settles a transfer op inscribed to the holder on its first transfer', async () => {
+    await indexLedger();
+
+    const ops = await getOps();
+
+    expect(ops[7]).toEqual({ op: 'transfer', is_valid: true, settled_at_block: START + 2 });
+  });
+
+  test('reverts the net balance changes after a block, and puts the settled ops back to pending', async () => {
+    await indexLedger();
+
+    await ctx.db.transaction((tx) => rollbackTokenLedger(tx, START + 1));
+
+    expect(await getBalances()).toEqual([
+      { address: alice, balance: 70 },
+      { address: bob, balance: 130 },
+      { address: carol, balance: 50 },
+    ]);
+    expect((await getOps())[7]).toEqual({ op: 'transfer', is_valid: null, settled_at_block: null });
+
+    await ctx.db.transaction((tx) => rollbackTokenLedger(tx, START));
+
+    expect(await getMinted()).toBe(250);
+    expect(await getBalances()).toEqual([
+      { address: alice, balance: 100 },
+      { address: bob, balance: 100 },
+      { address: carol, balance: 50 },
+    ]);
+
+    // and removes the tokens deployed after it, with their balances
+    await ctx.db.transaction((tx) => rollbackTokenLedger(tx, START - 1));
+
+    expect(await getMinted()).toBeNull();
+    expect(await getBalances()).toEqual([]);
+  });
+});
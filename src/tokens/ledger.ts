@@ -0,0 +1,273 @@
+import { and, eq, gt, inArray, isNull, lte, sql } from 'drizzle-orm';
+
+import { protocolErc20Ops, tokenBalances, tokens, tokenTransfers } from '@/db/schema/index.ts';
+import type { DbClient, Hex } from '@/indexer/types.ts';
+import type { ProtocolInput, ProtocolTransfer } from '@/protocols/types.ts';
+
+export type TokenOp = {
+  op: 'deploy' | 'mint' | 'transfer';
+  tick: string;
+  max: string | null;
+  lim: string | null;
+  amt: string | null;
+};
+
+type LedgerEntry = {
+  tick: string;
+  ethscription_id: Hex;
+  from: Hex;
+  to: Hex;
+  amount: number | null;
+  block_number: number;
+  transaction_index: number;
+  event_log_index: number | null;
+};
+
+// Positive safe integers only, anything else makes the op invalid
+function toAmount(value: string | null) {
+  const amount = Number(value);
+
+  return value !== null && Number.isSafeInteger(amount) && amount > 0 ? amount : null;
+}
+
+export async function getTokenBalance(tx: DbClient, tick: string, address: string) {
+  const [row] = await tx
+    .select({ balance: tokenBalances.balance })
+    .from(tokenBalances)
+    .where(and(eq(tokenBalances.tick, tick), eq(tokenBalances.address, address)));
+
+  return row?.balance ?? 0;
+}
+
+async function changeBalance(tx: DbClient, tick: string, address: string, delta: number) {
+  await tx
+    .insert(tokenBalances)
+    .values({ tick, address, balance: delta })
+    .onConflictDoUpdate({
+      target: [tokenBalances.tick, tokenBalances.address],
+      set: { balance: sql`${tokenBalances.balance} + ${delta}` },
+    });
+
+  // only holders are kept
+  await tx
+    .delete(tokenBalances)
+    .where(
+      and(
+        eq(tokenBalances.tick, tick),
+        eq(tokenBalances.address, address),
+        lte(tokenBalances.balance, 0),
+      ),
+    );
+}
+
+// Applies an "erc-20" op of a newly created ethscription to the ledger, returns whether it's valid,
+// or `null` for a transfer op that waits for the first transfer of its ethscription (see `settleTokenTransfer`)
+//
+// - deploy: valid for the first deploy of the tick, with `lim` (if any) not above `max`
+// - mint: valid when the tick is deployed, `amt` is within `lim` and the supply left, credited to the initial owner
+// - transfer: `amt` goes from the creator to the initial owner, when the creator has enough balance. Inscribed to
+//   the creator itself, it's executed on the first transfer of the ethscription instead, to whoever receives it
+export async function applyTokenOp(tx: DbClient, input: ProtocolInput, op: TokenOp) {
+  const [token] = await tx.select().from(tokens).where(eq(tokens.tick, op.tick));
+
+  if (op.op === 'deploy') {
+    const max = toAmount(op.max);
+    const lim = op.lim === null ? null : toAmount(op.lim);
+
+    if (token || !max || (op.lim !== null && (!lim || lim > max))) {
+      return false;
+    }
+
+    await tx.insert(tokens).values({
+      tick: op.tick,
+      ethscription_id: input.id,
+      deployer: input.creator,
+      max_supply: max,
+      mint_limit: lim,
+      block_number: input.block_number,
+      block_timestamp: input.block_timestamp,
+      transaction_index: input.transaction_index,
+    });
+
+    return true;
+  }
+
+  if (op.op === 'transfer' && input.initial_owner === input.creator) {
+    return null;
+  }
+
+  const entry = {
+    tick: op.tick,
+    ethscription_id: input.id,
+    from: input.creator,
+    to: input.initial_owner,
+    amount: toAmount(op.amt),
+    block_number: input.block_number,
+    transaction_index: input.transaction_index,
+    event_log_index: null,
+  };
+
+  if (op.op === 'transfer') {
+    return token ? transferTokens(tx, entry) : false;
+  }
+
+  const amount = entry.amount || 0;
+  const isValid =
+    token &&
+    amount > 0 &&
+    amount <= (token.mint_limit ?? token.max_supply) &&
+    token.minted + amount <= token.max_supply;
+
+  if (!isValid) {
+    return false;
+  }
+
+  await tx
+    .update(tokens)
+    .set({ minted: sql`${tokens.minted} + ${amount}` })
+    .where(eq(tokens.tick, op.tick));
+  await changeBalance(tx, op.tick, entry.to, amount);
+  await tx.insert(tokenTransfers).values({
+    ...getLedgerColumns(entry),
+    op: 'mint',
+    from_address: null,
+    amount,
+  });
+
+  return true;
+}
+
+// The first transfer of a pending transfer op (inscribed by the holder to itself) executes it,
+// from its creator to the receiver, and it's settled either way, later transfers do nothing
+export async function settleTokenTransfer(tx: DbClient, transfer: ProtocolTransfer) {
+  const [pending] = await tx
+    .select()
+    .from(protocolErc20Ops)
+    .where(
+      and(
+        eq(protocolErc20Ops.ethscription_id, transfer.id),
+        eq(protocolErc20Ops.op, 'transfer'),
+        isNull(protocolErc20Ops.is_valid),
+      ),
+    );
+
+  if (!pending) {
+    return;
+  }
+
+  const isValid = await transferTokens(tx, {
+    tick: pending.tick,
+    ethscription_id: transfer.id,
+    from: pending.creator as Hex,
+    to: transfer.to,
+    amount: toAmount(pending.amt),
+    block_number: transfer.block_number,
+    transaction_index: transfer.transaction_index,
+    event_log_index: transfer.event_log_index,
+  });
+
+  await tx
+    .update(protocolErc20Ops)
+    .set({ is_valid: isValid, settled_at_block: transfer.block_number })
+    .where(eq(protocolErc20Ops.ethscription_id, transfer.id));
+}
+
+async function transferTokens(tx: DbClient, entry: LedgerEntry) {
+  const balance = await getTokenBalance(tx, entry.tick, entry.from);
+
+  if (!entry.amount || entry.amount > balance) {
+    return false;
+  }
+
+  await changeBalance(tx, entry.tick, entry.from, -entry.amount);
+  await changeBalance(tx, entry.tick, entry.to, entry.amount);
+  await tx.insert(tokenTransfers).values({
+    ...getLedgerColumns(entry),
+    op: 'transfer',
+    from_address: entry.from,
+    amount: entry.amount,
+  });
+
+  return true;
+}
+
+function getLedgerColumns(entry: LedgerEntry) {
+  return {
+    tick: entry.tick,
+    ethscription_id: entry.ethscription_id,
+    to_address: entry.to,
+    block_number: entry.block_number,
+    transaction_index: entry.transaction_index,
+    event_log_index: entry.event_log_index,
+  };
+}
+
+// Reverts every balance change after `blockNumber`, with the net change per holder, removes the tokens
+// deployed after it, and puts the transfer ops settled after it back to pending
+export async function rollbackTokenLedger(tx: DbClient, blockNumber: number) {
+  const after = gt(tokenTransfers.block_number, blockNumber);
+  const received = await tx
+    .select({
+      tick: tokenTransfers.tick,
+      address: tokenTransfers.to_address,
+      amount: sql<number>`sum(${tokenTransfers.amount})`,
+    })
+    .from(tokenTransfers)
+    .where(after)
+    .groupBy(tokenTransfers.tick, tokenTransfers.to_address);
+
+  const sent = await tx
+    .select({
+      tick: tokenTransfers.tick,
+      address: sql<string>`${tokenTransfers.from_address}`,
+      amount: sql<number>`-sum(${tokenTransfers.amount})`,
+    })
+    .from(tokenTransfers)
+    .where(and(after, eq(tokenTransfers.op, 'transfer')))
+    .groupBy(tokenTransfers.tick, tokenTransfers.from_address);
+
+  const minted = await tx
+    .select({ tick: tokenTransfers.tick, amount: sql<number>`sum(${tokenTransfers.amount})` })
+    .from(tokenTransfers)
+    .where(and(after, eq(tokenTransfers.op, 'mint')))
+    .groupBy(tokenTransfers.tick);
+
+  const deltas = new Map<string, { tick: string; address: string; delta: number }>();
+
+  for (const { tick, address, amount } of [...received, ...sent]) {
+    const key = `${tick}:${address}`;
+    const delta = (deltas.get(key)?.delta || 0) - amount;
+
+    deltas.set(key, { tick, address, delta });
+  }
+
+  for (const { tick, address, delta } of deltas.values()) {
+    // eslint-disable-next-line no-await-in-loop
+    await changeBalance(tx, tick, address, delta);
+  }
+
+  for (const { tick, amount } of minted) {
+    // eslint-disable-next-line no-await-in-loop
+    await tx
+      .update(tokens)
+      .set({ minted: sql`${tokens.minted} - ${amount}` })
+      .where(eq(tokens.tick, tick));
+  }
+
+  await tx.delete(tokenTransfers).where(after);
+
+  const orphanedTokens = tx
+    .select({ tick: tokens.tick })
+    .from(tokens)
+    .where(gt(tokens.block_number, blockNumber));
+
+  await tx.delete(tokenBalances).where(inArray(tokenBalances.tick, orphanedTokens));
+  await tx.delete(tokens).where(gt(tokens.block_number, blockNumber));
+
+  await tx
+    .update(protocolErc20Ops)
+    .set({ is_valid: null, settled_at_block: null })
+    .where(
+      and(eq(protocolErc20Ops.op, 'transfer'), gt(protocolErc20Ops.settled_at_block, blockNumber)),
+    );
+}
@@ -1,7 +1,15 @@
 import { z } from 'zod';
 
+// The plain value schemas of the comparison and wildcard ones, what a `where[field][op]` value is validated against
+const baseSchemas = new WeakMap<z.ZodType, z.ZodType>();
+
+// The plain value schema of a query parameter, without the `gt:`/`range:` comparisons or the `*` wildcards
+export function getBaseSchema(schema: z.ZodType) {
+  return baseSchemas.get(schema) || schema;
+}
+
 export function createComparisonSchema(baseSchema: z.ZodSchema) {
-  return z
+  const schema = z
     .union([
       baseSchema,
       z
@@ -29,6 +37,10 @@ export function createComparisonSchema(baseSchema: z.ZodSchema) {
         }),
     ])
     .optional();
+
+  baseSchemas.set(schema, baseSchema);
+
+  return schema;
 }
 
 export const booleanSchema = z.enum(['true', 'false']).transform((value) => value === 'true');
@@ -37,38 +49,76 @@ export const booleanSchema = z.enum(['true', 'false']).transform((value) => valu
 export const addressSchema = z.string().regex(/^(0x[\dA-Fa-f]{40}|.*\.eth)$/);
 
 // Helper for wildcard text search
-export function createWildcardSchema(schema: z.ZodSchema) {
-  return z
+export function createWildcardSchema(baseSchema: z.ZodSchema) {
+  const schema = z
     .union([
-      schema,
+      baseSchema,
       z.string().includes('*'),
       // .transform((s) => ({ wildcard: true, value: s.replace(/\*/g, '') })),
     ])
     .optional();
+
+  baseSchemas.set(schema, baseSchema);
+
+  return schema;
 }
 
 export const numberSchema = z.string().transform(Number).pipe(z.number().int().positive());
 
+// The opaque cursors of the list routes, the `page_key` or `prev_page_key` of a previous page (see `encodeCursor`)
+export const pageKeySchema = z
+  .string()
+  .regex(/^[\w-]+\.[\w-]+$/, {
+    message:
+      'Invalid page key format. Must be the `page_key` or `prev_page_key` of a previous page',
+  })
+  .optional();
+
+// `sort=-block_timestamp,number`, a list of the allowed fields, ascending or descending with a `-` prefix,
+// parsed to `{ key, desc }`, the route adds its unique sort keys after them as a tiebreaker
+export function createSortSchema<T extends string>(keys: readonly [T, ...T[]]) {
+  return z
+    .string()
+    .transform((s) => s.split(',').filter(Boolean))
+    .pipe(
+      z
+        .array(
+          z.string().regex(new RegExp(`^-?(${keys.join('|')})$`), {
+            message: `Invalid sort field. Must be one of ${keys.join(', ')}, with a "-" prefix for descending`,
+          }),
+        )
+        .min(1)
+        .max(keys.length),
+    )
+    .transform((list) =>
+      list.map((x) => ({ key: x.replace(/^-/, '') as T, desc: x.startsWith('-') })),
+    )
+    .refine((list) => new Set(list.map((x) => x.key)).size === list.length, {
+      message: 'Each field can be sorted by only once',
+    })
+    .optional();
+}
+
+// How the `total` of a list is counted, `estimate` stops counting at a limit and `none` skips it,
+// for filters that match a lot of rows, the pages are still there with `next`/`page_key`
+export const countSchema = z.enum(['exact', 'estimate', 'none']).default('exact');
+
 export const baseEthscriptionSchema = z.object({
   // Pagination
   page: z.coerce.number().int().positive().min(1).default(1),
-  page_key: z
-    .string()
-    .regex(/^\d+_\d+$/, {
-      message:
-        'Invalid page key format. Must be a string in the format "{block_number}_{transaction_index}", like "123_4"',
-    })
-    .optional(),
+  page_key: pageKeySchema,
   page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+  count: countSchema,
 
   // Sorting
   order: z.enum(['asc', 'desc']).optional(),
+  sort: createSortSchema(['number', 'block_number', 'block_timestamp']),
 
   // Expansion
   expand: z
     .string()
     .transform((s) => s.split(',').filter(Boolean))
-    .pipe(z.array(z.enum(['collection', 'metadata', 'transfers', 'votes'])))
+    .pipe(z.array(z.enum(['collection', 'metadata', 'protocol', 'transfers', 'votes'])))
     .optional(),
 
   // Field filtering
@@ -137,6 +187,9 @@ export const baseEthscriptionSchema = z.object({
   is_esip4: booleanSchema.optional(),
   is_esip6: booleanSchema.optional(),
   is_esip8: booleanSchema.optional(),
+
+  // ESIP-8 attachment is stored locally (see `attachments` table)
+  has_attachment: booleanSchema.optional(),
 });
 
 export const ethscriptionParamsSchema = baseEthscriptionSchema;
@@ -144,11 +197,13 @@ export const collectionParamsSchema = z
   .object({
     // Pagination
     page: z.coerce.number().int().positive().min(1).default(1),
-    page_key: z.string().optional(), // 32-byte long CUIDv2, they are unique and sequential
+    page_key: pageKeySchema,
     page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+    count: countSchema,
 
     // Sorting
     order: z.enum(['asc', 'desc']).optional(),
+    sort: createSortSchema(['id', 'slug', 'name', 'supply', 'created_at']),
 
     // Text filters
     id: createWildcardSchema(z.string()),
@@ -179,12 +234,14 @@ export type CollectionParams = z.infer<typeof collectionParamsSchema>;
 export const voteParamsSchema = z.object({
   // Pagination
   page: z.coerce.number().int().positive().min(1).default(1),
-  page_key: z.string().optional(), // 32-byte long CUIDv2, they are unique and sequential
+  page_key: pageKeySchema,
   page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+  count: countSchema,
 
   // Sorting
   order: z.enum(['asc', 'desc']).default('desc'),
   sort_by: z.enum(['voted_at', 'rank']).default('rank'),
+  sort: createSortSchema(['rank', 'voted_at']),
 
   transaction_hash: createWildcardSchema(
     z
@@ -217,3 +274,134 @@ export const voteParamsSchema = z.object({
 });
 
 export type VoteParams = z.infer<typeof voteParamsSchema>;
+
+export const tokenParamsSchema = z.object({
+  // Pagination
+  page: z.coerce.number().int().positive().min(1).default(1),
+  page_key: pageKeySchema,
+  page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+  count: countSchema,
+
+  // Sorting, by deploy order
+  order: z.enum(['asc', 'desc']).optional(),
+  sort: createSortSchema(['tick', 'block_number', 'minted']),
+
+  // Text filters
+  tick: createWildcardSchema(z.string().min(1)),
+  deployer: createWildcardSchema(addressSchema),
+
+  // Numeric filters
+  max_supply: createComparisonSchema(numberSchema),
+  mint_limit: createComparisonSchema(numberSchema),
+  minted: createComparisonSchema(numberSchema.default('0')),
+  block_number: createComparisonSchema(numberSchema.default('1')),
+
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export const tokenHoldersParamsSchema = z.object({
+  // Pagination
+  page: z.coerce.number().int().positive().min(1).default(1),
+  page_key: pageKeySchema,
+  page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+  count: countSchema,
+
+  // Sorting, by balance
+  order: z.enum(['asc', 'desc']).default('desc'),
+  sort: createSortSchema(['balance', 'address']),
+
+  address: createWildcardSchema(addressSchema),
+  balance: createComparisonSchema(numberSchema),
+
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export type TokenParams = z.infer<typeof tokenParamsSchema>;
+export type TokenHoldersParams = z.infer<typeof tokenHoldersParamsSchema>;
+
+export const profileParamsSchema = z.object({
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export type ProfileParams = z.infer<typeof profileParamsSchema>;
+
+// Point-in-time queries, `at_block` is inclusive, the state at the end of that block
+const atBlockSchema = z.coerce.number().int().nonnegative().optional();
+
+export const ownersParamsSchema = z.object({
+  at_block: atBlockSchema,
+
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export const ownedParamsSchema = z.object({
+  // Pagination
+  page: z.coerce.number().int().positive().min(1).default(1),
+  page_key: pageKeySchema,
+  page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+  count: countSchema,
+
+  // Sorting, by creation
+  order: z.enum(['asc', 'desc']).default('desc'),
+  sort: createSortSchema(['number', 'block_number', 'block_timestamp']),
+
+  at_block: atBlockSchema,
+
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export type OwnersParams = z.infer<typeof ownersParamsSchema>;
+export type OwnedParams = z.infer<typeof ownedParamsSchema>;
+
+export const snapshotParamsSchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+
+  // the latest indexed state when neither is given
+  at_block: atBlockSchema,
+  at_timestamp: z.coerce.number().int().nonnegative().optional(),
+});
+
+export type SnapshotParams = z.infer<typeof snapshotParamsSchema>;
+
+export const collectionItemsParamsSchema = z.object({
+  // Pagination
+  page: z.coerce.number().int().positive().min(1).default(1),
+  page_key: pageKeySchema,
+  page_size: z.coerce.number().int().positive().min(1).max(100).default(25),
+  count: countSchema,
+
+  // Sorting, by creation (the oldest first) by default, or by rarity with `sort_by=rarity_rank` or `sort_by=rarity_score`.
+  // Without `order` it's the direction that puts the oldest or the rarest items first, `desc` for `rarity_score`
+  order: z.enum(['asc', 'desc']).optional(),
+  sort_by: z.enum(['created', 'rarity_rank', 'rarity_score']).default('created'),
+  sort: createSortSchema(['rarity_rank', 'number', 'block_number']),
+
+  name: createWildcardSchema(z.string()),
+  owner: createWildcardSchema(addressSchema),
+
+  // `trait[background]=purple&trait[hat]=cowboy hat`, repeated for any of more values of a trait
+  trait: z
+    .record(
+      z.string(),
+      z.union([z.string(), z.array(z.string())]).transform((x) => (Array.isArray(x) ? x : [x])),
+    )
+    .optional(),
+
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export type CollectionItemsParams = z.infer<typeof collectionItemsParamsSchema>;
+
+export const collectionStatsParamsSchema = z.object({
+  // the size of the transfer volume buckets
+  bucket: z.enum(['day', 'week', 'month']).default('day'),
+  top: z.coerce.number().int().positive().min(1).max(100).default(10),
+});
+
+export type CollectionStatsParams = z.infer<typeof collectionStatsParamsSchema>;
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { parse as qsParse } from 'qs-esm';
 import { z } from 'zod';
 
+import { getBaseSchema } from './params-validation.ts';
+
 export type ErrorResult = {
   message: string;
   status: number;
@@ -9,9 +11,12 @@ export type ErrorResult = {
   details?: z.ZodIssue[];
 };
 
-export const operators = ['eq', 'gt', 'lt', 'gte', 'lte', 'like'] as const;
+export const operators = ['eq', 'gt', 'lt', 'gte', 'lte', 'like', 'in', 'nin', 'is_null'] as const;
 export type Operator = (typeof operators)[number];
 
+// Lists of `in`/`nin`, as `where[field][in][]=a&where[field][in][]=b` or comma-separated `where[field][in]=a,b`
+const MAX_WHERE_LIST = 100;
+
 // All fields get all operators, with 'like' always returning string
 export type FieldOperators<T> = {
   eq?: T;
@@ -20,13 +25,24 @@ export type FieldOperators<T> = {
   gte?: T;
   lte?: T;
   like?: string;
+  in?: T[];
+  nin?: T[];
+  is_null?: boolean;
+};
+
+// The `where` grammar: fields with their operators are AND-ed, `and`/`or` are lists of nested clauses
+// and `not` is a single nested clause, like `where[or][0][creator][eq]=0x..&where[or][1][current_owner][eq]=0x..`
+export type WhereClause<T> = {
+  [K in keyof T]?: FieldOperators<T[K]>;
+} & {
+  and?: WhereClause<T>[];
+  or?: WhereClause<T>[];
+  not?: WhereClause<T>;
 };
 
 // The final validation result type
 export type ValidationResult<T extends z.ZodSchema> = z.infer<T> & {
-  where?: {
-    [K in keyof z.infer<T>]?: FieldOperators<z.infer<T>[K]>;
-  };
+  where?: WhereClause<z.infer<T>>;
 };
 
 export type BasicHandlerContext<TSchema extends z.ZodSchema> = {
@@ -34,32 +50,109 @@ export type BasicHandlerContext<TSchema extends z.ZodSchema> = {
   searchQuery: ValidationResult<TSchema>;
 };
 
+function throwWhereIssue(path: (string | number)[], message: string): never {
+  throw new z.ZodError([{ code: 'custom', path: ['where', ...path], message }]);
+}
+
+// qs parses up to 20 list items as an array, and longer lists as an object with numeric keys
+function toWhereList(value: unknown) {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+
+  return String(value).split(',');
+}
+
+// Against the plain value schema of the field, `where[block_number][gt]=gt:5` is not a number,
+// and only single values get to the query
+function parseWhereValue(schema: z.ZodType, value: unknown, path: (string | number)[]) {
+  const result = getBaseSchema(schema).safeParse(value);
+
+  if (!result.success) {
+    throw new z.ZodError(
+      result.error.issues.map((issue) => ({ ...issue, path: ['where', ...path, ...issue.path] })),
+    );
+  }
+  if (result.data !== null && typeof result.data === 'object') {
+    throwWhereIssue(path, 'Must be a single value');
+  }
+
+  return result.data;
+}
+
+function parseFieldOperators(schema: z.ZodType, conditions: unknown, path: string[]) {
+  if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions)) {
+    throwWhereIssue(path, 'Must be an object of operators, like `where[field][eq]=value`');
+  }
+
+  const result: Record<string, unknown> = {};
+
+  for (const [operator, value] of Object.entries(conditions)) {
+    const at = [...path, operator];
+
+    if (!operators.includes(operator as Operator)) {
+      throwWhereIssue(at, `Unsupported operator, must be one of: ${operators.join(', ')}`);
+    }
+
+    if (operator === 'like') {
+      result[operator] = parseWhereValue(z.string().min(1), value, at);
+    } else if (operator === 'is_null') {
+      result[operator] = parseWhereValue(
+        z.enum(['true', 'false']).transform((x) => x === 'true'),
+        value,
+        at,
+      );
+    } else if (operator === 'in' || operator === 'nin') {
+      const list = toWhereList(value);
+
+      if (list.length === 0 || list.length > MAX_WHERE_LIST) {
+        throwWhereIssue(at, `Must be a list of 1 to ${MAX_WHERE_LIST} values`);
+      }
+
+      result[operator] = list.map((item, idx) => parseWhereValue(schema, item, [...at, idx]));
+    } else {
+      result[operator] = parseWhereValue(schema, value, at);
+    }
+  }
+
+  return result;
+}
+
+// Validates a `where` clause (see `WhereClause`), every value against the schema of its field, the same
+// as the query parameter of that field without its comparisons and wildcards, so `where[block_number][gt]=10`
+// is parsed like `block_number=10`
 export function convertWhereValues<T extends z.ZodSchema>(
-  where: Record<string, Record<string, any>>,
+  where: Record<string, any>,
   schema: T,
+  path: (string | number)[] = [],
 ): ValidationResult<T>['where'] {
   if (!where) return undefined;
 
-  const result = {} as ValidationResult<T>['where'];
-  const shape = (schema as any).shape as Record<string, z.ZodType>;
+  if (typeof where !== 'object' || Array.isArray(where)) {
+    throwWhereIssue(path, 'Must be an object of fields, or `and`/`or`/`not` groups');
+  }
 
-  for (const [key, conditions] of Object.entries(where)) {
-    if (key in shape) {
-      result[key] = {};
+  const result: Record<string, any> = {};
+  const shape = (schema as any).shape as Record<string, z.ZodType>;
 
-      for (const [operator, value] of Object.entries(conditions)) {
-        result[key][operator] = (schema as any).shape[key]
-          ? (schema as any).shape[key].parse(value)
-          : value;
-      }
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'and' || key === 'or') {
+      result[key] = toWhereList(value).map((clause, idx) =>
+        convertWhereValues(clause, schema, [...path, key, idx]),
+      );
+    } else if (key === 'not') {
+      result[key] = convertWhereValues(value, schema, [...path, key]);
+    } else if (Object.hasOwn(shape, key)) {
+      result[key] = parseFieldOperators(shape[key], value, [...path, key] as string[]);
+    } else {
+      throwWhereIssue([...path, key], 'Unknown field');
     }
   }
 
-  return result;
+  return result as ValidationResult<T>['where'];
 }
 
 // Main validation function with proper typing
-export function validateInput<TSchema extends z.ZodSchema>(
+export async function validateInput<TSchema extends z.ZodSchema>(
   {
     req,
     input,
@@ -81,7 +174,8 @@ export function validateInput<TSchema extends z.ZodSchema>(
       where: where ? convertWhereValues(where, schema) : undefined,
     } as ValidationResult<TSchema>;
 
-    return handler(req, { params, searchQuery });
+    // awaited, so the validation errors of the handler, like of a `page_key`, are 400s too
+    return await handler(req, { params, searchQuery });
   } catch (err: any) {
     if (err instanceof z.ZodError) {
       return {
@@ -114,7 +208,8 @@ export function withValidation<TSchema extends z.ZodSchema>(
   return async function withValidate(req: Request, ctx: BasicHandlerContext<TSchema>) {
     const url = new URL(req.url);
 
-    const { where, ...input } = qsParse(url.search.slice(1));
+    // deep enough for a few levels of nested `where` groups
+    const { where, ...input } = qsParse(url.search.slice(1), { depth: 10 });
 
     // console.log('withValidation:', { ctx, input });
     const result = await validateInput(
@@ -147,6 +242,7 @@ export function withValidation<TSchema extends z.ZodSchema>(
       {
         pagination: result.pagination,
         data: result.data,
+        facets: result.facets,
       },
       { status: result.status || 200, headers: result.headers || new Headers() },
     );